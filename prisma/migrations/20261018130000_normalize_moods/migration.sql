@@ -0,0 +1,34 @@
+-- Normalize free-form mood values onto the shared mood registry (src/shared/moods.ts).
+-- Emoji, legacy backend names and mixed-case ids are mapped; anything unrecognised is dropped.
+CREATE FUNCTION "ink_normalize_mood"(value TEXT) RETURNS TEXT AS $$
+  SELECT CASE lower(trim(value))
+    WHEN 'joy' THEN 'joy' WHEN 'happy' THEN 'joy' WHEN 'joyful' THEN 'joy' WHEN '😊' THEN 'joy'
+    WHEN 'grateful' THEN 'grateful' WHEN '🙏' THEN 'grateful'
+    WHEN 'motivated' THEN 'motivated' WHEN '💪' THEN 'motivated'
+    WHEN 'calm' THEN 'calm' WHEN 'content' THEN 'calm' WHEN '😌' THEN 'calm'
+    WHEN 'neutral' THEN 'neutral' WHEN '😐' THEN 'neutral'
+    WHEN 'tired' THEN 'tired' WHEN '😴' THEN 'tired'
+    WHEN 'anxious' THEN 'anxious' WHEN '😰' THEN 'anxious'
+    WHEN 'stressed' THEN 'stressed' WHEN '🫠' THEN 'stressed'
+    WHEN 'sad' THEN 'sad' WHEN '😔' THEN 'sad'
+    WHEN 'angry' THEN 'angry' WHEN '😠' THEN 'angry'
+    ELSE NULL
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Normalize single mood
+UPDATE "Entry" SET "moodEmoji" = "ink_normalize_mood"("moodEmoji") WHERE "moodEmoji" IS NOT NULL;
+
+-- Normalize mood tags, dropping unknown values and duplicates while keeping order
+UPDATE "Entry" SET "moodTags" = COALESCE((
+  SELECT array_agg(normalized ORDER BY first_position)
+  FROM (
+    SELECT "ink_normalize_mood"(tag) AS normalized, min(position) AS first_position
+    FROM unnest("moodTags") WITH ORDINALITY AS t(tag, position)
+    WHERE "ink_normalize_mood"(tag) IS NOT NULL
+    GROUP BY 1
+  ) AS tags
+), ARRAY[]::TEXT[])
+WHERE cardinality("moodTags") > 0;
+
+DROP FUNCTION "ink_normalize_mood"(TEXT);
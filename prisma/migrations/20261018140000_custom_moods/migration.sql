@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Mood" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Mood_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Mood_userId_idx" ON "Mood"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Mood_userId_label_key" ON "Mood"("userId", "label");
+
+-- AddForeignKey
+ALTER TABLE "Mood" ADD CONSTRAINT "Mood_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
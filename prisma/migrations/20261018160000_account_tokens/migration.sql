@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "emailVerificationTokenHash" TEXT,
+ADD COLUMN     "emailVerificationExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "passwordResetTokenHash" TEXT,
+ADD COLUMN     "passwordResetExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_emailVerificationTokenHash_key" ON "User"("emailVerificationTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_passwordResetTokenHash_key" ON "User"("passwordResetTokenHash");
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Kept in sync by Postgres itself, so writes through Prisma never have to touch it
+ALTER TABLE "Entry" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Entry_searchVector_idx" ON "Entry" USING GIN ("searchVector");
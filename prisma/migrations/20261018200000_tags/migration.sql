@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_EntryToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "Tag_userId_idx" ON "Tag"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_name_key" ON "Tag"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_EntryToTag_AB_unique" ON "_EntryToTag"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_EntryToTag_B_index" ON "_EntryToTag"("B");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EntryToTag" ADD CONSTRAINT "_EntryToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "Entry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EntryToTag" ADD CONSTRAINT "_EntryToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill tags from hashtags already written in entries (same rules as src/shared/tags.ts)
+CREATE TEMP TABLE "_entry_hashtags" AS
+SELECT DISTINCT e."id" AS "entryId", e."userId", h."name"
+FROM "Entry" e
+CROSS JOIN LATERAL (
+    SELECT lower(rtrim(m[1], '-_')) AS "name"
+    FROM regexp_matches(e."content", '(?<![[:alnum:]_#&])#([[:alpha:]][[:alnum:]_-]*)', 'g') AS m
+) h
+WHERE length(h."name") BETWEEN 1 AND 40;
+
+INSERT INTO "Tag" ("id", "userId", "name")
+SELECT gen_random_uuid()::text, "userId", "name"
+FROM (SELECT DISTINCT "userId", "name" FROM "_entry_hashtags") t;
+
+INSERT INTO "_EntryToTag" ("A", "B")
+SELECT h."entryId", t."id"
+FROM "_entry_hashtags" h
+JOIN "Tag" t ON t."userId" = h."userId" AND t."name" = h."name";
+
+DROP TABLE "_entry_hashtags";
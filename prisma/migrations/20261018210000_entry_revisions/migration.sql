@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "EntryRevision" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "moodEmoji" TEXT,
+    "savedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntryRevision_entryId_revision_key" ON "EntryRevision"("entryId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "EntryRevision" ADD CONSTRAINT "EntryRevision_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "Entry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
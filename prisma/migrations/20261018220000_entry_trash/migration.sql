@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Entry" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Entry_deletedAt_idx" ON "Entry"("deletedAt");
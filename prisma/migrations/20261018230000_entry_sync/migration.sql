@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "EntryTombstone" (
+    "entryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntryTombstone_pkey" PRIMARY KEY ("entryId")
+);
+
+-- CreateIndex
+CREATE INDEX "EntryTombstone_userId_deletedAt_idx" ON "EntryTombstone"("userId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Entry_userId_updatedAt_idx" ON "Entry"("userId", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "EntryTombstone" ADD CONSTRAINT "EntryTombstone_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
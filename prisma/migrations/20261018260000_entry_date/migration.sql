@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "Entry" ADD COLUMN     "entryDate" DATE,
+ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- Existing entries only have createdAt, which is stored in UTC
+UPDATE "Entry" SET "entryDate" = "createdAt"::date;
+
+ALTER TABLE "Entry" ALTER COLUMN "entryDate" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Entry_userId_entryDate_idx" ON "Entry"("userId", "entryDate");
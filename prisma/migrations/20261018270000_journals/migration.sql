@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "Journal" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "icon" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Journal_pkey" PRIMARY KEY ("id")
+);
+
+-- Every existing account gets its default journal, holding all of its entries
+INSERT INTO "Journal" ("id", "userId", "name", "color", "icon", "isDefault", "updatedAt")
+SELECT 'journal_' || "id", "id", 'Journal', '#171717', 'book', true, CURRENT_TIMESTAMP FROM "User";
+
+-- AlterTable
+ALTER TABLE "Entry" ADD COLUMN     "journalId" TEXT;
+
+UPDATE "Entry" SET "journalId" = 'journal_' || "userId";
+
+ALTER TABLE "Entry" ALTER COLUMN "journalId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Journal_userId_name_key" ON "Journal"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "Journal_userId_idx" ON "Journal"("userId");
+
+-- CreateIndex
+CREATE INDEX "Entry_journalId_idx" ON "Entry"("journalId");
+
+-- AddForeignKey
+ALTER TABLE "Journal" ADD CONSTRAINT "Journal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Entry" ADD CONSTRAINT "Entry_journalId_fkey" FOREIGN KEY ("journalId") REFERENCES "Journal"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -7,9 +7,17 @@ import { PrismaClient } from '@prisma/client';
 import authRoutes from './src/backend/routes/auth';
 import entriesRoutes from './src/backend/routes/entries';
 import insightsRoutes from './src/backend/routes/insights';
+import moodsRoutes from './src/backend/routes/moods';
+import tagsRoutes from './src/backend/routes/tags';
+import journalsRoutes from './src/backend/routes/journals';
+import accountRoutes from './src/backend/routes/account';
+import attachmentsRoutes from './src/backend/routes/attachments';
+import eventsRoutes from './src/backend/routes/events';
 import errorMiddleware from './src/backend/middleware/errorMiddleware';
 import OpenAI from 'openai';
 import { OPENAI_MODEL } from './src/backend/utils/ai';
+import { startAccountPurgeJob } from './src/backend/utils/accountDeletion';
+import { startTrashPurgeJob } from './src/backend/utils/entryTrash';
 
 const prisma = new PrismaClient();
 const app = express();
@@ -36,6 +44,12 @@ app.use(express.json());
 app.use('/auth', authRoutes);
 app.use('/entries', entriesRoutes);
 app.use('/insights', insightsRoutes);
+app.use('/moods', moodsRoutes);
+app.use('/tags', tagsRoutes);
+app.use('/journals', journalsRoutes);
+app.use('/account', accountRoutes);
+app.use('/attachments', attachmentsRoutes);
+app.use('/events', eventsRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -73,6 +87,8 @@ app.use(errorMiddleware);
 app.listen(PORT, () => {
   console.log(`API running on http://localhost:${PORT}`);
   console.log(`SERVER_RUNNING_ON: http://localhost:${PORT}`);
+  startAccountPurgeJob(prisma);
+  startTrashPurgeJob(prisma);
 });
 
 export default app;
@@ -1,156 +1,292 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { MotionConfig } from 'framer-motion';
+import { Toaster, toast } from 'sonner';
 import { Home } from './components/Home';
 import { NewEntry } from './components/NewEntry';
 import { Calendar } from './components/Calendar';
 import { Insights } from './components/Insights';
 import { Profile } from './components/Profile';
+import { Search } from './components/Search';
 import { BottomNav } from './components/BottomNav';
+import { Auth } from './components/Auth';
+import { EntryDetail } from './components/EntryDetail';
+import { CommandPalette } from './components/CommandPalette';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { GuestEntriesDialog } from './components/GuestEntriesDialog';
+import { useAuth } from './context/AuthContext';
+import { useSettings } from './context/SettingsContext';
+import { useJournals } from './context/JournalsContext';
+import { SyncContext } from './context/SyncContext';
+import { useShortcuts } from './lib/shortcuts';
+import { createId } from './lib/ids';
+import { clearLocalJournal, getJournalOwner, loadEntries, saveEntryChanges, setJournalOwner } from './lib/localStore';
+import { clearSyncState, findGuestEntries, useEntrySync } from './lib/sync';
+import { useEventStream } from './lib/events';
+import { extractHashtags } from './shared/tags';
+import { deviceTimeZone, localDateKey } from './shared/dates';
 
-export type Screen = 'home' | 'new-entry' | 'calendar' | 'insights' | 'profile';
+export type Screen = 'home' | 'new-entry' | 'calendar' | 'search' | 'insights' | 'profile';
 
 export interface JournalEntry {
   id: string;
   date: Date;
+  entryDate: string; // The calendar day the entry is for (YYYY-MM-DD), as seen where it was written
+  timeZone: string; // IANA zone of the device it was written on
+  journalId?: string; // Unset means the default journal
   content: string;
-  mood?: 'joy' | 'calm' | 'sad' | 'anxious' | 'stressed' | 'motivated' | 'grateful';
+  mood?: string; // Built-in mood id or a custom mood id
+  tags?: string[]; // Normalized names of the #hashtags in content
   createdAt: Date;
   photos?: string[]; // Array of image URLs
+  version?: number; // Server version this copy is based on; unset until the entry has synced
 }
 
-// Serializable format for localStorage
-interface StoredJournalEntry {
-  id: string;
-  date: string;
-  content: string;
-  mood?: 'joy' | 'calm' | 'sad' | 'anxious' | 'stressed' | 'motivated' | 'grateful';
-  createdAt: string;
-  photos?: string[];
-}
-
-// Load entries from localStorage
-const loadEntriesFromStorage = (): JournalEntry[] => {
-  try {
-    const stored = localStorage.getItem('ink_entries');
-    if (!stored) return [];
-    
-    const parsed: StoredJournalEntry[] = JSON.parse(stored);
-    return parsed.map(entry => ({
-      ...entry,
-      date: new Date(entry.date),
-      createdAt: new Date(entry.createdAt),
-    }));
-  } catch (error) {
-    console.error('Failed to load entries from localStorage:', error);
-    return [];
-  }
-};
-
-// Save entries to localStorage
-const saveEntriesToStorage = (entries: JournalEntry[]): void => {
-  try {
-    const storable: StoredJournalEntry[] = entries.map(entry => ({
-      ...entry,
-      date: entry.date.toISOString(),
-      createdAt: entry.createdAt.toISOString(),
-    }));
-    localStorage.setItem('ink_entries', JSON.stringify(storable));
-  } catch (error) {
-    console.error('Failed to save entries to localStorage:', error);
-  }
-};
+// What the editor produces; the rest is filled in when the entry is saved
+export type NewJournalEntry = Omit<JournalEntry, 'id' | 'createdAt' | 'entryDate' | 'timeZone'>;
 
 export default function App() {
+  const { status, user, resetToken } = useAuth();
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
   const [entries, setEntries] = useState<JournalEntry[]>([]);
-  // Load entries from localStorage on mount
+  const [entriesLoaded, setEntriesLoaded] = useState(false);
+  const [guestEntries, setGuestEntries] = useState<JournalEntry[]>([]);
+  const savedEntries = useRef<JournalEntry[]>([]);
+  const { settings } = useSettings();
+  const { selectedJournalId } = useJournals();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [newEntryDate, setNewEntryDate] = useState<Date | null>(null);
+  const [paletteEntry, setPaletteEntry] = useState<JournalEntry | null>(null);
+  const [generateInsights, setGenerateInsights] = useState(false);
+  const isSignedIn = status === 'authenticated' || status === 'guest';
+  const accountId = status === 'authenticated' && user ? user.id : null;
+  // Guests keep their journal on this device only. Syncing waits for the local copy so it has something to merge into.
+  const syncUserId = accountId && entriesLoaded ? accountId : null;
+  const sync = useEntrySync(syncUserId, setEntries);
+  useEventStream(syncUserId);
+  const conflictCount = useRef(0);
+
+  // Load the journal on this device once we know whose it should be. One left by another account (or by an
+  // account, for a guest) is deleted rather than shown; a guest's journal waits for the user to claim it.
   useEffect(() => {
-    const loadedEntries = loadEntriesFromStorage();
-    setEntries(loadedEntries);
-  }, []);
+    if (!isSignedIn) {
+      savedEntries.current = [];
+      setEntries([]);
+      setEntriesLoaded(false);
+      setGuestEntries([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const owner = getJournalOwner();
+      if (owner && owner !== accountId) {
+        clearSyncState();
+        await clearLocalJournal();
+      }
+      const loadedEntries = await loadEntries();
+      const unclaimed = accountId && !owner ? await findGuestEntries(accountId, loadedEntries) : [];
+      if (cancelled) return;
+      if (accountId && unclaimed.length === 0) setJournalOwner(accountId);
+      savedEntries.current = loadedEntries;
+      setEntries(loadedEntries);
+      setGuestEntries(unclaimed);
+      setEntriesLoaded(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn, accountId]);
+
+  // Save the entries that changed since the last save
+  useEffect(() => {
+    if (!entriesLoaded || entries === savedEntries.current) return;
+    void saveEntryChanges(savedEntries.current, entries);
+    savedEntries.current = entries;
+  }, [entries, entriesLoaded]);
 
-  // Save entries to localStorage whenever they change
+  // Point out new conflicts right away; the entry itself offers the ways to resolve them
   useEffect(() => {
-    saveEntriesToStorage(entries);
-  }, [entries]);
-  const handleNewEntry = async (entry: Omit<JournalEntry, 'id' | 'createdAt'>) => {
+    const latest = sync.conflicts[sync.conflicts.length - 1];
+    if (latest && sync.conflicts.length > conflictCount.current) {
+      const entry = entries.find((e) => e.id === latest.entryId);
+      toast('An entry was edited on two devices', {
+        description: 'Choose which version to keep.',
+        action: entry ? { label: 'Review', onClick: () => setPaletteEntry(entry) } : undefined,
+      });
+    }
+    conflictCount.current = sync.conflicts.length;
+  }, [sync.conflicts]);
+
+  const handleNewEntry = (entry: NewJournalEntry) => {
     const newEntry: JournalEntry = {
       ...entry,
-      id: Date.now().toString(),
+      id: createId(),
+      entryDate: localDateKey(entry.date),
+      timeZone: deviceTimeZone(),
+      // Written while looking at one journal, so it goes in that one
+      journalId: entry.journalId ?? selectedJournalId ?? undefined,
+      tags: extractHashtags(entry.content),
       createdAt: new Date(),
     };
     
-    // Save to localStorage
+    // Save locally first; the sync outbox sends it to the backend when it can
     setEntries([newEntry, ...entries]);
-    
-    // Save to backend database
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      try {
-        await fetch('/api/entries', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            content: entry.content,
-            moodEmoji: entry.mood,
-            createdAt: newEntry.createdAt.toISOString(),
-          }),
-        });
-      } catch (err) {
-        console.error('Failed to save entry to backend:', err);
-      }
-    }
+    sync.enqueue({ type: 'create', entry: newEntry });
+    newEntry.photos?.forEach((photo) => sync.enqueue({ type: 'upload', entryId: newEntry.id, photo }));
     
     setCurrentScreen('home');
   };
 
-  const handleUpdateEntry = async (updatedEntry: JournalEntry) => {
+  const handleUpdateEntry = (edited: JournalEntry) => {
+    const updatedEntry = { ...edited, tags: extractHashtags(edited.content) };
+    const before = entries.find((entry) => entry.id === updatedEntry.id)?.photos ?? [];
+    const after = updatedEntry.photos ?? [];
     setEntries(entries.map((entry: JournalEntry) => 
       entry.id === updatedEntry.id ? updatedEntry : entry
     ));
-    
-    // Save to backend database
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      try {
-        await fetch(`/api/entries/${updatedEntry.id}`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            content: updatedEntry.content,
-            moodEmoji: updatedEntry.mood,
-          }),
-        });
-      } catch (err) {
-        console.error('Failed to update entry on backend:', err);
-      }
-    }
+    sync.enqueue({ type: 'update', entry: updatedEntry });
+    after
+      .filter((photo) => !before.includes(photo))
+      .forEach((photo) => sync.enqueue({ type: 'upload', entryId: updatedEntry.id, photo }));
+    before
+      .filter((photo) => !after.includes(photo))
+      .forEach((photo) => sync.enqueue({ type: 'removePhoto', entryId: updatedEntry.id, photo }));
+  };
+
+  // Deleted entries go to the server's trash; the returned function puts the entry back
+  const handleDeleteEntry = (deleted: JournalEntry) => {
+    const index = entries.findIndex((entry) => entry.id === deleted.id);
+    setEntries((prev) => prev.filter((entry) => entry.id !== deleted.id));
+    sync.enqueue({ type: 'delete', entryId: deleted.id });
+
+    return () => {
+      setEntries((prev) => {
+        if (prev.some((entry) => entry.id === deleted.id)) return prev;
+        const next = [...prev];
+        next.splice(index < 0 ? 0 : Math.min(index, next.length), 0, deleted);
+        return next;
+      });
+      // The outbox is sent in order, so the restore can't overtake the delete
+      sync.enqueue({ type: 'restore', entryId: deleted.id });
+    };
+  };
+
+  const claimGuestEntries = (keep: boolean) => {
+    if (!accountId) return;
+    const ids = new Set(guestEntries.map((entry) => entry.id));
+    if (keep) sync.addLocalEntries(entries.filter((entry) => ids.has(entry.id)));
+    else setEntries((prev) => prev.filter((entry) => !ids.has(entry.id)));
+    setJournalOwner(accountId);
+    setGuestEntries([]);
+  };
+
+  const navigate = (screen: Screen) => {
+    setPaletteEntry(null);
+    setCurrentScreen(screen);
   };
 
+  // Back-dated entries reuse NewEntry the same way Calendar does
+  const startNewEntry = (date?: Date) => {
+    setNewEntryDate(date ?? null);
+    navigate('new-entry');
+  };
+
+  useShortcuts(
+    isSignedIn
+      ? {
+          commandPalette: () => setIsPaletteOpen((open) => !open),
+          newEntry: () => startNewEntry(),
+          search: () => navigate('search'),
+        }
+      : {}
+  );
+
+  // Wait for a stored session to be checked before deciding what to show
+  if (status === 'loading') {
+    return <div className="min-h-screen bg-[#FFFFFF]" />;
+  }
+
+  if (status === 'unauthenticated' || resetToken) {
+    return <Auth />;
+  }
+
   return (
-    <div className="min-h-screen bg-[#FFFFFF] text-[#171717]">
-      <main className="pb-20 max-w-md mx-auto">
-        {currentScreen === 'home' && (
-          <Home 
-            onStartEntry={() => setCurrentScreen('new-entry')} 
-            onNavigate={setCurrentScreen}
+    <SyncContext.Provider value={sync}>
+      <MotionConfig reducedMotion={settings.reduceMotion ? 'always' : 'user'}>
+        <div className="min-h-screen bg-[#FFFFFF] text-[#171717]">
+          <main className="pb-20 max-w-md mx-auto">
+            {paletteEntry ? (
+              <EntryDetail
+                entry={paletteEntry}
+                onBack={() => setPaletteEntry(null)}
+                onUpdate={(entry) => {
+                  handleUpdateEntry(entry);
+                  setPaletteEntry(null);
+                }}
+                onDelete={handleDeleteEntry}
+              />
+            ) : (
+              <>
+                {currentScreen === 'home' && (
+                  <Home 
+                    onStartEntry={() => startNewEntry()} 
+                    onNavigate={navigate}
+                    entries={entries}
+                    onUpdateEntry={handleUpdateEntry}
+                    onDeleteEntry={handleDeleteEntry}
+                  />
+                )}
+                {currentScreen === 'new-entry' && (
+                  <NewEntry
+                    key={newEntryDate?.toISOString() ?? 'today'}
+                    existingEntry={newEntryDate ? ({ date: newEntryDate } as JournalEntry) : undefined}
+                    onSave={handleNewEntry}
+                    onCancel={() => navigate('home')}
+                  />
+                )}
+                {currentScreen === 'calendar' && (
+                  <Calendar
+                    entries={entries}
+                    onUpdateEntry={handleUpdateEntry}
+                    onNewEntry={handleNewEntry}
+                    onDeleteEntry={handleDeleteEntry}
+                  />
+                )}
+                {currentScreen === 'search' && (
+                  <Search entries={entries} onUpdateEntry={handleUpdateEntry} onDeleteEntry={handleDeleteEntry} />
+                )}
+                {currentScreen === 'insights' && (
+                  <Insights
+                    entries={entries}
+                    generateOnOpen={generateInsights}
+                    onGenerateHandled={() => setGenerateInsights(false)}
+                  />
+                )}
+                {currentScreen === 'profile' && <Profile onBack={() => navigate('home')} />}
+              </>
+            )}
+          </main>
+          <BottomNav currentScreen={currentScreen} onNavigate={navigate} />
+          <Toaster position="top-center" theme="light" />
+          <UpdatePrompt />
+          <GuestEntriesDialog
+            count={guestEntries.length}
+            onAdd={() => claimGuestEntries(true)}
+            onDiscard={() => claimGuestEntries(false)}
+          />
+          <CommandPalette
+            open={isPaletteOpen}
+            onOpenChange={setIsPaletteOpen}
             entries={entries}
-            onUpdateEntry={handleUpdateEntry}
+            onNavigate={navigate}
+            onOpenEntry={setPaletteEntry}
+            onNewEntry={startNewEntry}
+            onGenerateInsights={() => {
+              setGenerateInsights(true);
+              navigate('insights');
+            }}
           />
-        )}
-        {currentScreen === 'new-entry' && (
-          <NewEntry onSave={handleNewEntry} onCancel={() => setCurrentScreen('home')} />
-        )}
-        {currentScreen === 'calendar' && <Calendar entries={entries} onUpdateEntry={handleUpdateEntry} onNewEntry={handleNewEntry} />}
-        {currentScreen === 'insights' && <Insights entries={entries} />}
-        {currentScreen === 'profile' && <Profile onBack={() => setCurrentScreen('home')} />}
-      </main>
-      <BottomNav currentScreen={currentScreen} onNavigate={setCurrentScreen} />
-    </div>
+        </div>
+      </MotionConfig>
+    </SyncContext.Provider>
   );
-}
\ No newline at end of file
+}
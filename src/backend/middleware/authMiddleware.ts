@@ -1,10 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { verifyToken, type AccessTokenPayload } from '../utils/jwt';
+import { isSessionActive } from '../utils/sessions';
 
-interface JwtPayload {
-  userId: string;
-  email: string;
-}
+const prisma = new PrismaClient();
+
+type JwtPayload = AccessTokenPayload;
 
 declare global {
   namespace Express {
@@ -14,7 +15,14 @@ declare global {
   }
 }
 
-export function authMiddleware(req: Request, res: Response, next: NextFunction) {
+// Verifies the access token and that its session has not been revoked (logout, device removal, reuse).
+export async function authenticateToken(token: string): Promise<JwtPayload | null> {
+  const decoded = verifyToken(token);
+  if (!decoded?.sessionId) return null;
+  return (await isSessionActive(prisma, decoded.sessionId)) ? decoded : null;
+}
+
+export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
   const token = req.headers.authorization?.split(' ')[1];
 
   if (!token) {
@@ -22,10 +30,11 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction)
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as JwtPayload;
+    const decoded = await authenticateToken(token);
+    if (!decoded) return res.status(401).json({ error: 'Invalid token' });
     req.user = decoded;
     next();
   } catch (err) {
-    return res.status(401).json({ error: 'Invalid token' });
+    next(err);
   }
 }
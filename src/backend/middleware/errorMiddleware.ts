@@ -1,15 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
 
 interface ApiError extends Error {
   statusCode?: number;
 }
 
+// Throw from route helpers to surface a specific status through this middleware
+export class HttpError extends Error implements ApiError {
+  statusCode: number;
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
 export default function errorMiddleware(
   err: ApiError,
   req: Request,
   res: Response,
   next: NextFunction
 ) {
+  // Validation failures are client errors; surface the first issue as a readable message
+  if (err instanceof ZodError) {
+    const issue = err.issues[0];
+    return res.status(400).json({
+      error: issue ? `${issue.path.join('.') || 'body'}: ${issue.message}` : 'Invalid request',
+      statusCode: 400,
+    });
+  }
+
   const statusCode = err.statusCode || 500;
   const message = err.message || 'Internal Server Error';
 
@@ -0,0 +1,90 @@
+import express from 'express';
+import archiver from 'archiver';
+import bcrypt from 'bcrypt';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { writeAccountExport } from '../utils/accountExport';
+import { restoreAccount, scheduleAccountDeletion } from '../utils/accountDeletion';
+import { verifySecondFactor } from '../utils/totp';
+import { localDateKey } from '../../shared/dates';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().trim().optional(),
+});
+
+const restoreAccountSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+// POST /account/restore - cancel a pending deletion. Sessions were revoked, so this takes credentials.
+router.post('/restore', async (req, res, next) => {
+  try {
+    const parsed = restoreAccountSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { email: parsed.email } });
+    if (!user) return res.status(400).json({ error: 'Invalid credentials' });
+
+    const ok = await bcrypt.compare(parsed.password, user.passwordHash);
+    if (!ok) return res.status(400).json({ error: 'Invalid credentials' });
+    if (!user.deletionScheduledFor) return res.status(400).json({ error: 'Account is not scheduled for deletion' });
+
+    await restoreAccount(prisma, user.id);
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.use(authMiddleware as any);
+
+// DELETE /account - schedule deletion after re-entering the password (and a code when 2FA is on)
+router.delete('/', async (req, res, next) => {
+  try {
+    const parsed = deleteAccountSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) return res.status(404).json({ error: 'Not found' });
+
+    const ok = await bcrypt.compare(parsed.password, user.passwordHash);
+    if (!ok) return res.status(400).json({ error: 'Incorrect password' });
+    if (user.totpEnabledAt) {
+      if (!parsed.code) return res.status(400).json({ error: 'Enter a code from your authenticator app' });
+      if (!(await verifySecondFactor(prisma, user, parsed.code))) return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    const deletionScheduledFor = await scheduleAccountDeletion(prisma, user.id);
+    res.json({ ok: true, deletionScheduledFor });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /account/export - the whole journal as a ZIP, streamed as it is built
+router.get('/export', async (req, res, next) => {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  try {
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="ink-export-${localDateKey(new Date())}.zip"`);
+
+    // Once bytes are on the wire the status can't change, so a failure just cuts the download
+    archive.on('error', (err) => {
+      console.error('Account export failed:', err);
+      res.destroy(err);
+    });
+    archive.pipe(res);
+
+    await writeAccountExport(prisma, req.user!.userId, archive);
+    await archive.finalize();
+  } catch (err) {
+    archive.abort();
+    if (res.headersSent) return res.destroy(err as Error);
+    res.removeHeader('Content-Disposition');
+    next(err);
+  }
+});
+
+export default router;
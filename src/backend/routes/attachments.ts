@@ -0,0 +1,39 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { getStorage } from '../utils/storage';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+router.use(authMiddleware as any);
+
+// Files never change once uploaded (a new photo gets a new id), so clients can cache them for good
+const serveFile = (variant: 'original' | 'thumbnail'): express.RequestHandler<{ id: string }> => async (req, res, next) => {
+  try {
+    const attachment = await prisma.attachment.findUnique({ where: { id: req.params.id } });
+    if (!attachment || attachment.userId !== req.user!.userId) return res.status(404).json({ error: 'Not found' });
+
+    const key = variant === 'original' ? attachment.storageKey : attachment.thumbnailKey;
+    const file = await getStorage().get(key);
+    if (!file) return res.status(404).json({ error: 'Not found' });
+
+    res.set({
+      'Content-Type': variant === 'original' ? attachment.contentType : 'image/webp',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      ...(variant === 'original' && { 'Content-Length': String(attachment.size) }),
+    });
+    file.on('error', next);
+    file.pipe(res);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /attachments/:id - the photo itself, without metadata
+router.get('/:id', serveFile('original'));
+
+// GET /attachments/:id/thumbnail - a WebP at most 400px on its longest side
+router.get('/:id/thumbnail', serveFile('thumbnail'));
+
+export default router;
@@ -1,8 +1,33 @@
 import express from 'express';
 import { z } from 'zod';
 import bcrypt from 'bcrypt';
-import { PrismaClient } from '@prisma/client';
-import { generateToken } from '../utils/jwt';
+import QRCode from 'qrcode';
+import { PrismaClient, type User } from '@prisma/client';
+import { authMiddleware } from '../middleware/authMiddleware';
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  RefreshTokenError,
+  type SessionContext,
+} from '../utils/sessions';
+import {
+  consumeEmailVerificationToken,
+  consumePasswordResetToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from '../utils/accountTokens';
+import { generateMfaToken, verifyMfaToken } from '../utils/jwt';
+import { timeZoneSchema } from '../utils/validation';
+import { DEFAULT_JOURNAL } from '../../shared/journals';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifySecondFactor,
+  verifyTotp,
+} from '../utils/totp';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -11,11 +36,65 @@ const registerSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
   name: z.string().optional(),
+  timeZone: timeZoneSchema.optional(),
+  deviceLabel: z.string().max(100).optional(),
 });
 
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
+  deviceLabel: z.string().max(100).optional(),
+});
+
+const updateMeSchema = z.object({
+  timeZone: timeZoneSchema.optional(),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const loginTwoFactorSchema = z.object({
+  mfaToken: z.string().min(1),
+  code: z.string().trim().min(1),
+  deviceLabel: z.string().max(100).optional(),
+});
+
+const totpCodeSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().trim().min(1),
+});
+
+const publicUser = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  emailVerified: !!user.emailVerifiedAt,
+  twoFactorEnabled: !!user.totpEnabledAt,
+  timeZone: user.timeZone,
+});
+
+const sessionContext = (req: express.Request, deviceLabel?: string): SessionContext => ({
+  deviceLabel,
+  ipAddress: req.ip,
+  userAgent: req.headers['user-agent'],
 });
 
 router.post('/register', async (req, res, next) => {
@@ -26,11 +105,20 @@ router.post('/register', async (req, res, next) => {
 
     const passwordHash = await bcrypt.hash(parsed.password, 10);
     const user = await prisma.user.create({
-      data: { email: parsed.email, passwordHash, name: parsed.name }
+      data: {
+        email: parsed.email,
+        passwordHash,
+        name: parsed.name,
+        timeZone: parsed.timeZone,
+        journals: { create: { ...DEFAULT_JOURNAL, isDefault: true } },
+      },
     });
 
-    const token = generateToken(user.id, user.email);
-    res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
+    // A mail outage shouldn't block sign-up; the user can ask for another link later
+    sendVerificationEmail(prisma, user).catch((err) => console.error('Failed to send verification email:', err));
+
+    const tokens = await createSession(prisma, user, sessionContext(req, parsed.deviceLabel));
+    res.json({ user: publicUser(user), ...tokens });
   } catch (err) {
     next(err);
   }
@@ -45,21 +133,235 @@ router.post('/login', async (req, res, next) => {
     const ok = await bcrypt.compare(parsed.password, user.passwordHash);
     if (!ok) return res.status(400).json({ error: 'Invalid credentials' });
 
-    const token = generateToken(user.id, user.email);
-    res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
+    if (user.deletionScheduledFor) {
+      return res.status(403).json({
+        error: 'This account is scheduled for deletion',
+        code: 'account_pending_deletion',
+        deletionScheduledFor: user.deletionScheduledFor,
+      });
+    }
+
+    // Second step: the client exchanges this token plus a code at /login/2fa
+    if (user.totpEnabledAt) {
+      return res.json({ mfaRequired: true, mfaToken: generateMfaToken(user.id) });
+    }
+
+    const tokens = await createSession(prisma, user, sessionContext(req, parsed.deviceLabel));
+    res.json({ user: publicUser(user), ...tokens });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/login/2fa', async (req, res, next) => {
+  try {
+    const parsed = loginTwoFactorSchema.parse(req.body);
+    const userId = verifyMfaToken(parsed.mfaToken);
+    if (!userId) return res.status(401).json({ error: 'Sign-in expired. Enter your password again.' });
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.totpEnabledAt) return res.status(401).json({ error: 'Sign-in expired. Enter your password again.' });
+    if (!(await verifySecondFactor(prisma, user, parsed.code))) return res.status(400).json({ error: 'Invalid code' });
+
+    const tokens = await createSession(prisma, user, sessionContext(req, parsed.deviceLabel));
+    res.json({ user: publicUser(user), ...tokens });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get('/me', authMiddleware as any, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    res.json(publicUser(user));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /auth/me - clients send the device's time zone when it differs from the stored one
+router.patch('/me', authMiddleware as any, async (req, res, next) => {
+  try {
+    const parsed = updateMeSchema.parse(req.body);
+    const user = await prisma.user.update({ where: { id: req.user!.userId }, data: parsed });
+    res.json(publicUser(user));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/refresh', async (req, res, next) => {
+  try {
+    const parsed = refreshSchema.parse(req.body);
+    const tokens = await rotateSession(prisma, parsed.refreshToken, sessionContext(req));
+    res.json(tokens);
+  } catch (err) {
+    if (err instanceof RefreshTokenError) return res.status(401).json({ error: err.message });
+    next(err);
+  }
+});
+
+router.post('/logout', authMiddleware as any, async (req, res, next) => {
+  try {
+    await revokeSession(prisma, req.user!.sessionId, 'logout');
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get('/sessions', authMiddleware as any, async (req, res, next) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.user!.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+      select: { id: true, deviceLabel: true, ipAddress: true, createdAt: true, lastUsedAt: true },
+    });
+    res.json({
+      sessions: sessions.map((s) => ({ ...s, current: s.id === req.user!.sessionId })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete('/sessions/:id', authMiddleware as any, async (req, res, next) => {
+  try {
+    const session = await prisma.session.findUnique({ where: { id: req.params.id } });
+    if (!session || session.userId !== req.user!.userId) return res.status(404).json({ error: 'Not found' });
+    await revokeSession(prisma, session.id, 'revoked_by_user');
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Always answers the same way so the endpoint can't be used to probe for accounts. The email goes out in
+// the background: waiting for it would make known addresses slower, and a mailer error would give them away.
+router.post('/forgot-password', async (req, res, next) => {
+  try {
+    const parsed = forgotPasswordSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { email: parsed.email } });
+    if (user) {
+      sendPasswordResetEmail(prisma, user).catch((err) => console.error('Failed to send password reset email:', err));
+    }
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/reset-password', async (req, res, next) => {
+  try {
+    const parsed = resetPasswordSchema.parse(req.body);
+    const passwordHash = await bcrypt.hash(parsed.password, 10);
+    const userId = await consumePasswordResetToken(prisma, parsed.token, passwordHash);
+    if (!userId) return res.status(400).json({ error: 'Reset link is invalid or has expired' });
+
+    // Sign out everywhere; whoever knew the old password shouldn't stay signed in
+    await revokeAllSessions(prisma, userId, 'password_reset');
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/verify-email', async (req, res, next) => {
+  try {
+    const parsed = verifyEmailSchema.parse(req.body);
+    const userId = await consumeEmailVerificationToken(prisma, parsed.token);
+    if (!userId) return res.status(400).json({ error: 'Verification link is invalid or has expired' });
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/resend-verification', authMiddleware as any, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    if (user.emailVerifiedAt) return res.status(400).json({ error: 'Email is already verified' });
+    await sendVerificationEmail(prisma, user);
+    res.json({ ok: true });
   } catch (err) {
     next(err);
   }
 });
 
-router.get('/me', async (req, res, next) => {
+// Starts (or restarts) enrolment; nothing changes for login until /2fa/enable confirms a code
+router.post('/2fa/setup', authMiddleware as any, async (req, res, next) => {
   try {
-    const auth = req.headers.authorization?.split(' ')[1];
-    if (!auth) return res.status(401).json({ error: 'Unauthorized' });
-    const decoded = require('jsonwebtoken').verify(auth, process.env.JWT_SECRET || 'secret');
-    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
     if (!user) return res.status(404).json({ error: 'Not found' });
-    res.json({ id: user.id, email: user.email, name: user.name });
+    if (user.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({ where: { id: user.id }, data: { totpSecret: secret, totpLastUsedStep: null } });
+
+    const otpauthUri = buildOtpauthUri(secret, user.email);
+    const qrCode = await QRCode.toDataURL(otpauthUri);
+    res.json({ secret, otpauthUri, qrCode });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/2fa/enable', authMiddleware as any, async (req, res, next) => {
+  try {
+    const parsed = totpCodeSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    if (user.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    if (!user.totpSecret) return res.status(400).json({ error: 'Start two-factor setup first' });
+
+    const step = verifyTotp(user.totpSecret, parsed.code);
+    if (step === null) return res.status(400).json({ error: 'Invalid code' });
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step, totpRecoveryCodeHashes: hashes },
+    });
+    res.json({ recoveryCodes: codes });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/2fa/disable', authMiddleware as any, async (req, res, next) => {
+  try {
+    const parsed = disableTwoFactorSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    if (!user.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+
+    const ok = await bcrypt.compare(parsed.password, user.passwordHash);
+    if (!ok) return res.status(400).json({ error: 'Incorrect password' });
+    if (!(await verifySecondFactor(prisma, user, parsed.code))) return res.status(400).json({ error: 'Invalid code' });
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpRecoveryCodeHashes: [] },
+    });
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/2fa/recovery-codes', authMiddleware as any, async (req, res, next) => {
+  try {
+    const parsed = totpCodeSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    if (!user.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    if (!(await verifySecondFactor(prisma, user, parsed.code))) return res.status(400).json({ error: 'Invalid code' });
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({ where: { id: user.id }, data: { totpRecoveryCodeHashes: hashes } });
+    res.json({ recoveryCodes: codes });
   } catch (err) {
     next(err);
   }
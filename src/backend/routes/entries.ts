@@ -1,103 +1,443 @@
 import express from 'express';
+import multer from 'multer';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { authMiddleware } from '../middleware/authMiddleware';
+import { HttpError } from '../middleware/errorMiddleware';
+import {
+  dateKeySchema,
+  entryContentSchema,
+  entryIdSchema,
+  moodValueSchema,
+  tagNameSchema,
+  timeZoneSchema,
+} from '../utils/validation';
+import { resolveMoodValues } from '../utils/moods';
+import { searchEntries } from '../utils/search';
+import { extractHashtags, normalizeTagName } from '../../shared/tags';
+import { entryTagsInclude, pruneUnusedTags, resolveTagIds } from '../utils/tags';
+import { hasRevisedChanges, snapshotRevision } from '../utils/revisions';
+import { deleteTrashedEntries, trashPurgeDate } from '../utils/entryTrash';
+import { MAX_CHANGES_PAGE, currentChangesCursor, getEntryChanges, parseChangesCursor } from '../utils/entrySync';
+import { entryETag, expectedVersion } from '../utils/entryVersion';
+import { publishUserEvent } from '../utils/userEvents';
+import { getUserTimeZone, parseDayParam } from '../utils/entryDates';
+import { resolveJournalId } from '../utils/journals';
+import { dateKeyInZone, dateKeyToUtc } from '../../shared/dates';
+import {
+  MAX_ATTACHMENTS_PER_ENTRY,
+  MAX_ATTACHMENT_BYTES,
+  MAX_FILES_PER_UPLOAD,
+  createAttachment,
+  deleteAttachmentFiles,
+  entryAttachmentsInclude,
+} from '../utils/attachments';
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const entryInclude = { ...entryTagsInclude, ...entryAttachmentsInclude } as const;
+
+// Files are buffered in memory: they are re-encoded before anything is stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_FILES_PER_UPLOAD },
+});
+
 const createSchema = z.object({
-  content: z.string().min(1),
-  moodTags: z.array(z.string()).optional(),
-  moodEmoji: z.string().optional(),
-  createdAt: z.string().optional(),
+  id: entryIdSchema.optional(),
+  journalId: z.string().optional(), // Defaults to the user's default journal
+  content: entryContentSchema.min(1),
+  moodTags: z.array(moodValueSchema).optional(),
+  moodEmoji: moodValueSchema.nullable().optional(),
+  tags: z.array(tagNameSchema).max(50).optional(),
+  createdAt: z.string().datetime({ offset: true }).optional(),
+  // The day the entry is for; defaults to the day of createdAt in timeZone, which defaults to the user's
+  entryDate: dateKeySchema.optional(),
+  timeZone: timeZoneSchema.optional(),
 });
 
 const updateSchema = z.object({
-  content: z.string().optional(),
-  moodTags: z.array(z.string()).optional(),
-  moodEmoji: z.string().optional(),
+  content: entryContentSchema.optional(),
+  moodTags: z.array(moodValueSchema).optional(),
+  moodEmoji: moodValueSchema.nullable().optional(), // null clears the mood
+  tags: z.array(tagNameSchema).max(50).optional(),
+  entryDate: dateKeySchema.optional(),
+  journalId: z.string().optional(), // Moves the entry to another journal
+  version: z.number().int().positive().optional(), // Alternative to If-Match for clients that can't set headers
 });
 
+// Accepts `?mood=a,b` as well as `?mood=a&mood=b`
+const listParam = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap((v) => String(v).split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+// A repeated `?journal=a&journal=b` arrives as an array, which Prisma can't take as an id
+const singleParam = (name: string, value: unknown): string | undefined => {
+  if (value === undefined || typeof value === 'string') return value || undefined;
+  throw new HttpError(400, `${name} must be given once`);
+};
+
 router.use(authMiddleware as any);
 
 router.post('/', async (req, res, next) => {
   try {
     const parsed = createSchema.parse(req.body);
     const userId = req.user!.userId;
+
+    // Creates are retried from the client outbox, so a repeated id returns the entry we already have
+    if (parsed.id) {
+      const existing = await prisma.entry.findUnique({ where: { id: parsed.id }, include: entryInclude });
+      if (existing && existing.userId !== userId) return res.status(409).json({ error: 'Entry id already in use' });
+      if (existing) return res.set('ETag', entryETag(existing)).json(existing);
+    }
+
+    const moodTags = await resolveMoodValues(prisma, userId, parsed.moodTags || []);
+    const [moodEmoji] = await resolveMoodValues(prisma, userId, parsed.moodEmoji ? [parsed.moodEmoji] : []);
+    const tags = await resolveTagIds(prisma, userId, parsed.tags || []);
+    const journalId = await resolveJournalId(prisma, userId, parsed.journalId);
+    const createdAt = parsed.createdAt ? new Date(parsed.createdAt) : new Date();
+    const timeZone = parsed.timeZone ?? (await getUserTimeZone(prisma, userId));
     const created = await prisma.entry.create({
       data: {
+        id: parsed.id,
         userId,
+        journalId,
         content: parsed.content,
-        moodTags: parsed.moodTags || [],
-        moodEmoji: parsed.moodEmoji || null,
-        createdAt: parsed.createdAt ? new Date(parsed.createdAt) : undefined,
-      }
+        moodTags,
+        moodEmoji: moodEmoji || null,
+        tags: { connect: tags },
+        entryDate: dateKeyToUtc(parsed.entryDate ?? dateKeyInZone(createdAt, timeZone)),
+        timeZone,
+        createdAt,
+      },
+      include: entryInclude,
     });
-    res.json(created);
+    publishUserEvent(userId, { type: 'entry.created', entry: created });
+    res.set('ETag', entryETag(created)).json(created);
   } catch (err) {
     next(err);
   }
 });
 
+// `from` and `to` are inclusive calendar days in the user's time zone, matched against entryDate
 router.get('/', async (req, res, next) => {
   try {
     const userId = req.user!.userId;
-    const { from, to, limit = '20', cursor } = req.query as any;
-
-    const where: any = { userId };
-    if (from || to) where.createdAt = {};
-    if (from) where.createdAt.gte = new Date(from);
-    if (to) where.createdAt.lte = new Date(to);
+    const { limit = '20', q } = req.query as any;
+    const cursor = singleParam('cursor', req.query.cursor);
+    const journal = singleParam('journal', req.query.journal);
+    const timeZone = req.query.from || req.query.to ? await getUserTimeZone(prisma, userId) : undefined;
+    const from = timeZone ? parseDayParam('from', req.query.from, timeZone) : undefined;
+    const to = timeZone ? parseDayParam('to', req.query.to, timeZone) : undefined;
+    const moods = await resolveMoodValues(prisma, userId, listParam(req.query.mood));
+    // An invalid name can't match any tag, so it simply filters everything out
+    const tags = listParam(req.query.tag).map(normalizeTagName);
 
     const take = Math.min(100, parseInt(limit, 10) || 20);
 
+    // Search results are ordered by rank, so the cursor is an offset into them
+    if (typeof q === 'string' && q.trim()) {
+      const offset = Math.max(0, parseInt(cursor ?? '', 10) || 0);
+      const results = await searchEntries(prisma, userId, {
+        q,
+        journalId: journal,
+        from,
+        to,
+        moods,
+        tags,
+        take: take + 1,
+        offset,
+      });
+      const nextCursor = results.length > take ? String(offset + take) : null;
+      return res.json({ entries: results.slice(0, take), nextCursor });
+    }
+
+    // Taken before reading, so changes made while a client pages through the list show up in /entries/changes
+    const syncCursor = currentChangesCursor();
+    const where: any = { userId, deletedAt: null };
+    if (journal) where.journalId = journal;
+    if (from || to) where.entryDate = {};
+    if (from) where.entryDate.gte = dateKeyToUtc(from);
+    if (to) where.entryDate.lte = dateKeyToUtc(to);
+    if (moods.length) where.moodEmoji = { in: moods };
+    if (tags.length) where.AND = tags.map((name) => ({ tags: { some: { name } } }));
+
     const entries = await prisma.entry.findMany({
       where,
-      orderBy: { createdAt: 'desc' },
+      include: entryInclude,
+      orderBy: [{ entryDate: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
       take: take + 1,
       //@ts-ignore
       cursor: cursor ? { id: cursor } : undefined,
       skip: cursor ? 1 : 0,
     });
 
+    // The cursor is the last entry returned; the next page starts right after it
     let nextCursor = null;
     if (entries.length > take) {
-      nextCursor = entries[take].id;
-      entries.splice(take, 1);
+      entries.splice(take);
+      nextCursor = entries[take - 1].id;
     }
 
-    res.json({ entries, nextCursor });
+    res.json({ entries, nextCursor, syncCursor });
   } catch (err) {
     next(err);
   }
 });
 
-router.get('/:id', async (req, res, next) => {
+// GET /entries/changes?since=<cursor> - delta sync: changed entries (trashed ones carry deletedAt) and
+// tombstones for entries deleted for good. Omit `since` for a full sync; pass back `cursor` next time.
+router.get('/changes', async (req, res, next) => {
+  try {
+    const { since, limit } = req.query as any;
+    const cursor = parseChangesCursor(since);
+    if (since && !cursor) return res.status(400).json({ error: 'Invalid since cursor' });
+    const take = Math.min(MAX_CHANGES_PAGE, parseInt(limit, 10) || MAX_CHANGES_PAGE);
+    res.json(await getEntryChanges(prisma, req.user!.userId, cursor, take));
+  } catch (err) { next(err); }
+});
+
+// GET /entries/trash - deleted entries, most recently deleted first, with the date each will be purged
+router.get('/trash', async (req, res, next) => {
+  try {
+    const entries = await prisma.entry.findMany({
+      where: { userId: req.user!.userId, deletedAt: { not: null } },
+      orderBy: { deletedAt: 'desc' },
+      include: entryInclude,
+    });
+    res.json({ entries: entries.map((entry) => ({ ...entry, purgeAt: trashPurgeDate(entry.deletedAt!) })) });
+  } catch (err) { next(err); }
+});
+
+router.post('/trash/:id/restore', async (req, res, next) => {
   try {
     const userId = req.user!.userId;
     const entry = await prisma.entry.findUnique({ where: { id: req.params.id } });
-    if (!entry || entry.userId !== userId) return res.status(404).json({ error: 'Not found' });
-    res.json(entry);
+    if (!entry || entry.userId !== userId || !entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+    const restored = await prisma.entry.update({
+      where: { id: entry.id },
+      data: { deletedAt: null },
+      include: entryInclude,
+    });
+    publishUserEvent(userId, { type: 'entry.updated', entry: restored });
+    res.json(restored);
+  } catch (err) { next(err); }
+});
+
+// Permanent deletes only apply to entries already in the trash
+router.delete('/trash/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const entry = await prisma.entry.findUnique({ where: { id: req.params.id } });
+    if (!entry || entry.userId !== userId || !entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+    await deleteTrashedEntries(prisma, userId, [entry.id]);
+    publishUserEvent(userId, { type: 'entry.deleted', id: entry.id, deletedAt: new Date() });
+    res.json({ ok: true });
+  } catch (err) { next(err); }
+});
+
+router.delete('/trash', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const count = await deleteTrashedEntries(prisma, userId);
+    if (count > 0) publishUserEvent(userId, { type: 'entries.changed' });
+    res.json({ ok: true, deleted: count });
+  } catch (err) { next(err); }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const entry = await prisma.entry.findUnique({ where: { id: req.params.id }, include: entryInclude });
+    if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+    res.set('ETag', entryETag(entry)).json(entry);
   } catch (err) { next(err); }
 });
 
+// Send the version you last read (If-Match or `version`) to make the update conditional: if the entry
+// has changed since, nothing is written and the 409 carries the current version alongside yours
 router.patch('/:id', async (req, res, next) => {
   try {
     const parsed = updateSchema.parse(req.body);
     const userId = req.user!.userId;
+    const expected = expectedVersion(req.get('If-Match'), parsed.version);
     const entry = await prisma.entry.findUnique({ where: { id: req.params.id } });
-    if (!entry || entry.userId !== userId) return res.status(404).json({ error: 'Not found' });
+    if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
 
-    const updated = await prisma.entry.update({
-      where: { id: req.params.id },
-      data: {
-        content: parsed.content ?? entry.content,
-        moodTags: parsed.moodTags ?? entry.moodTags,
-        moodEmoji: parsed.moodEmoji ?? entry.moodEmoji,
+    const sendConflict = async () => {
+      const current = await prisma.entry.findUniqueOrThrow({ where: { id: entry.id }, include: entryInclude });
+      res.status(409).set('ETag', entryETag(current)).json({
+        error: 'Entry was changed on another device',
+        current,
+        yours: { ...parsed, version: expected },
+      });
+    };
+    if (expected !== undefined && expected !== entry.version) return sendConflict();
+
+    const moodTags = parsed.moodTags && await resolveMoodValues(prisma, userId, parsed.moodTags);
+    const [moodEmoji = null] = parsed.moodEmoji ? await resolveMoodValues(prisma, userId, [parsed.moodEmoji]) : [];
+    const tags = parsed.tags && await resolveTagIds(prisma, userId, parsed.tags);
+    const journalId = parsed.journalId && await resolveJournalId(prisma, userId, parsed.journalId);
+    const next = {
+      content: parsed.content ?? entry.content,
+      moodEmoji: parsed.moodEmoji === undefined ? entry.moodEmoji : moodEmoji,
+    };
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Claim the version we read; another write may have landed since
+      const { count } = await tx.entry.updateMany({
+        where: { id: entry.id, version: entry.version },
+        data: { version: { increment: 1 } },
+      });
+      if (count === 0) return null;
+      // Keep the version being replaced so an accidental edit can be undone
+      if (hasRevisedChanges(entry, next)) await snapshotRevision(tx, entry);
+      return tx.entry.update({
+        where: { id: req.params.id },
+        data: {
+          ...next,
+          moodTags: moodTags ?? entry.moodTags,
+          tags: tags ? { set: tags } : undefined,
+          entryDate: parsed.entryDate ? dateKeyToUtc(parsed.entryDate) : undefined,
+          journalId: journalId || undefined,
+        },
+        include: entryInclude,
+      });
+    });
+    if (!updated) return sendConflict();
+    if (tags) await pruneUnusedTags(prisma, userId);
+    publishUserEvent(userId, { type: 'entry.updated', entry: updated });
+    res.set('ETag', entryETag(updated)).json(updated);
+  } catch (err) { next(err); }
+});
+
+// GET /entries/:id/revisions - earlier versions, newest first
+router.get('/:id/revisions', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const entry = await prisma.entry.findUnique({ where: { id: req.params.id } });
+    if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+
+    const revisions = await prisma.entryRevision.findMany({
+      where: { entryId: entry.id },
+      orderBy: { revision: 'desc' },
+      select: { revision: true, content: true, moodEmoji: true, savedAt: true, createdAt: true },
+    });
+    res.json({ revisions });
+  } catch (err) { next(err); }
+});
+
+// Restoring is itself an edit: the current version becomes the newest revision
+router.post('/:id/revisions/:rev/restore', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const entry = await prisma.entry.findUnique({ where: { id: req.params.id } });
+    if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+
+    const revisionNumber = parseInt(req.params.rev, 10);
+    const revision = Number.isInteger(revisionNumber)
+      ? await prisma.entryRevision.findUnique({ where: { entryId_revision: { entryId: entry.id, revision: revisionNumber } } })
+      : null;
+    if (!revision) return res.status(404).json({ error: 'Not found' });
+
+    // The mood may have been a custom mood that has since been deleted
+    const [moodEmoji] = revision.moodEmoji
+      ? await resolveMoodValues(prisma, userId, [revision.moodEmoji]).catch(() => [])
+      : [];
+    const next = { content: revision.content, moodEmoji: moodEmoji ?? null };
+    if (!hasRevisedChanges(entry, next)) {
+      const current = await prisma.entry.findUniqueOrThrow({ where: { id: entry.id }, include: entryInclude });
+      return res.set('ETag', entryETag(current)).json(current);
+    }
+
+    const tags = await resolveTagIds(prisma, userId, extractHashtags(revision.content));
+    const updated = await prisma.$transaction(async (tx) => {
+      await snapshotRevision(tx, entry);
+      return tx.entry.update({
+        where: { id: entry.id },
+        data: { ...next, tags: { set: tags }, version: { increment: 1 } },
+        include: entryInclude,
+      });
+    });
+    await pruneUnusedTags(prisma, userId);
+    publishUserEvent(userId, { type: 'entry.updated', entry: updated });
+    res.set('ETag', entryETag(updated)).json(updated);
+  } catch (err) { next(err); }
+});
+
+// Attachment changes don't return the entry, so it is read back for other devices
+async function publishEntryUpdated(userId: string, entryId: string) {
+  const entry = await prisma.entry.findUnique({ where: { id: entryId }, include: entryInclude });
+  if (entry) publishUserEvent(userId, { type: 'entry.updated', entry });
+}
+
+// GET /entries/:id/attachments - the entry's photos, oldest first
+router.get('/:id/attachments', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const entry = await prisma.entry.findUnique({ where: { id: req.params.id }, include: entryAttachmentsInclude });
+    if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+    res.json({ attachments: entry.attachments });
+  } catch (err) { next(err); }
+});
+
+// POST /entries/:id/attachments - multipart upload of one or more images in the `photos` field.
+// The entry is checked before the body is read so uploads to someone else's entry aren't buffered.
+router.post(
+  '/:id/attachments',
+  async (req, res, next) => {
+    try {
+      const userId = req.user!.userId;
+      const entry = await prisma.entry.findUnique({ where: { id: req.params.id }, include: { _count: { select: { attachments: true } } } });
+      if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+      res.locals.attachmentCount = entry._count.attachments;
+      next();
+    } catch (err) { next(err); }
+  },
+  (req, res, next) => {
+    upload.array('photos', MAX_FILES_PER_UPLOAD)(req, res, (err: unknown) => {
+      if (!(err instanceof multer.MulterError)) return next(err);
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Photos can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` });
       }
+      res.status(400).json({ error: err.code === 'LIMIT_FILE_COUNT' ? `Upload at most ${MAX_FILES_PER_UPLOAD} photos at a time` : err.message });
     });
-    res.json(updated);
+  },
+  async (req, res, next) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) return res.status(400).json({ error: 'No photos uploaded' });
+      if (res.locals.attachmentCount + files.length > MAX_ATTACHMENTS_PER_ENTRY) {
+        return res.status(400).json({ error: `An entry can have at most ${MAX_ATTACHMENTS_PER_ENTRY} photos` });
+      }
+
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await createAttachment(prisma, req.user!.userId, req.params.id, file.buffer));
+      }
+      await publishEntryUpdated(req.user!.userId, req.params.id);
+      res.status(201).json({ attachments });
+    } catch (err) { next(err); }
+  }
+);
+
+router.delete('/:id/attachments/:attachmentId', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const attachment = await prisma.attachment.findUnique({ where: { id: req.params.attachmentId } });
+    if (!attachment || attachment.userId !== userId || attachment.entryId !== req.params.id) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    await prisma.$transaction([
+      prisma.attachment.delete({ where: { id: attachment.id } }),
+      prisma.entry.update({ where: { id: attachment.entryId }, data: { updatedAt: new Date() } }),
+    ]);
+    await deleteAttachmentFiles([attachment]);
+    await publishEntryUpdated(userId, attachment.entryId);
+    res.json({ ok: true });
   } catch (err) { next(err); }
 });
 
@@ -105,9 +445,11 @@ router.delete('/:id', async (req, res, next) => {
   try {
     const userId = req.user!.userId;
     const entry = await prisma.entry.findUnique({ where: { id: req.params.id } });
-    if (!entry || entry.userId !== userId) return res.status(404).json({ error: 'Not found' });
-    await prisma.entry.delete({ where: { id: req.params.id } });
-    res.json({ ok: true });
+    if (!entry || entry.userId !== userId || entry.deletedAt) return res.status(404).json({ error: 'Not found' });
+    // Moves the entry to the trash; it can be restored until it is purged
+    const deleted = await prisma.entry.update({ where: { id: entry.id }, data: { deletedAt: new Date() } });
+    publishUserEvent(userId, { type: 'entry.deleted', id: entry.id, deletedAt: deleted.deletedAt! });
+    res.json({ ok: true, deletedAt: deleted.deletedAt, purgeAt: trashPurgeDate(deleted.deletedAt!) });
   } catch (err) { next(err); }
 });
 
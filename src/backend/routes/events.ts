@@ -0,0 +1,57 @@
+import express from 'express';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../utils/jwt';
+import { subscribeUserEvents } from '../utils/userEvents';
+
+const router = express.Router();
+
+// Comment lines keep proxies and load balancers from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+router.use(authMiddleware as any);
+
+// GET /events - Server-Sent Events for the signed-in user: entry.created, entry.updated, entry.deleted,
+// entries.changed, journals.changed and insight.ready, each with the event as JSON in `data`. The stream ends when the
+// access token expires; clients reconnect with a fresh one and catch up through /entries/changes.
+router.get('/', async (req, res) => {
+  // Sent before subscribing, so an event published right away already goes out as part of the stream
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // Listened for before subscribing, so a client that leaves while the subscription is set up doesn't leave it behind
+  let closed = false;
+  let cleanup = () => {};
+  res.on('close', () => {
+    closed = true;
+    cleanup();
+  });
+
+  try {
+    const unsubscribe = await subscribeUserEvents(req.user!.userId, (type, data) => {
+      res.write(`event: ${type}\ndata: ${data}\n\n`);
+    });
+    if (closed) return void unsubscribe();
+
+    res.write('retry: 5000\n\nevent: ready\ndata: {}\n\n');
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    const expiresAt = (req.user!.exp ?? Date.now() / 1000 + ACCESS_TOKEN_TTL_SECONDS) * 1000;
+    const expiry = setTimeout(() => res.end(), Math.max(0, expiresAt - Date.now()));
+    cleanup = () => {
+      clearInterval(heartbeat);
+      clearTimeout(expiry);
+      void unsubscribe();
+    };
+  } catch (err) {
+    // The stream has already started, so there is no error response to send; the client reconnects
+    console.error('Failed to subscribe to user events:', err);
+    res.end();
+  }
+});
+
+export default router;
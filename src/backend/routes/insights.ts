@@ -1,7 +1,25 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
+import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { authMiddleware, authenticateToken } from '../middleware/authMiddleware';
 import { callOpenAIInsightsRaw, callOpenAIFutureYou, parseOpenAIInsights, OPENAI_MODEL } from '../utils/ai';
+import { computeWeeklyStats, parseWeekStart } from '../utils/weeklyStats';
+import { resolveMood, type CustomMood } from '../../shared/moods';
+import {
+  DEFAULT_TIME_ZONE,
+  addDaysToKey,
+  dateKeyInZone,
+  dateKeyToUtc,
+  dayOfWeek,
+  hourInZone,
+  isValidDateKey,
+  isValidTimeZone,
+  utcDateKey,
+} from '../../shared/dates';
+import { getCustomMoods } from '../utils/moods';
+import { getUserTimeZone } from '../utils/entryDates';
+import { dateKeySchema } from '../utils/validation';
+import { publishUserEvent } from '../utils/userEvents';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -24,8 +42,11 @@ interface AIResponse {
 
 
 // POST /insights/ai - AI-powered insights
+// `day` is the entry's calendar day and `timeZone` the zone it was written in, when known
+type AIEntry = { date: string; mood?: string; text: string; day?: string; timeZone?: string };
+
 const handleInsightsAI = async (req: express.Request, res: express.Response) => {
-  let entriesForAIValidated: Array<{ date: string; mood?: string; text: string }> = [];
+  let entriesForAIValidated: AIEntry[] = [];
   let combinedTextLength = 0;
   let forceGenerate = false;
   let cacheReason = 'miss:no_cache';
@@ -55,7 +76,7 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
     if (authHeader.startsWith('Bearer ')) {
       const token = authHeader.split(' ')[1];
       try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as any;
+        const decoded = await authenticateToken(token);
         userId = decoded?.userId;
       } catch (err) {
         // ignore token errors; we allow unauthenticated usage with provided entries
@@ -64,26 +85,32 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
 
     // Prefer DB entries from last 7 days inclusive; if DB is down, fall back to entries sent in the request body.
     // Attempt DB query but do not allow a DB failure to crash the route
-    let dbEntries: Array<{ date: string; mood?: string; text: string }> = [];
+    let dbEntries: AIEntry[] = [];
+    let customMoods: CustomMood[] = [];
     try {
-      const end = new Date();
-      const start = new Date();
-      start.setDate(start.getDate() - 7);
-      const where: any = { createdAt: { gte: start, lte: end } };
+      if (userId) customMoods = await getCustomMoods(prisma, userId);
+      // The last 7 days by entry date, as the user counts days
+      const today = dateKeyInZone(new Date(), userId ? await getUserTimeZone(prisma, userId) : DEFAULT_TIME_ZONE);
+      const where: any = {
+        entryDate: { gte: dateKeyToUtc(addDaysToKey(today, -7)), lte: dateKeyToUtc(today) },
+        deletedAt: null,
+      };
       if (userId) where.userId = userId;
 
       const found = await prisma.entry.findMany({
         where,
-        orderBy: { createdAt: 'asc' },
-        select: { id: true, content: true, createdAt: true, moodEmoji: true, moodTags: true },
+        orderBy: [{ entryDate: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true, content: true, entryDate: true, timeZone: true, createdAt: true, moodEmoji: true, moodTags: true },
       });
       console.log('[Insights] Entries fetched from DB:', found.length);
       // Include ALL entries, even those without text, to include mood-only entries
       dbEntries = found
         .map((f) => ({
           date: f.createdAt?.toISOString?.() || new Date().toISOString(),
-          mood: f.moodEmoji || f.moodTags?.[0] || '',
+          mood: resolveMood(f.moodEmoji || f.moodTags?.[0], customMoods)?.label.toLowerCase() || '',
           text: f.content || '',
+          day: utcDateKey(f.entryDate),
+          timeZone: f.timeZone,
         }));
     } catch (err: any) {
       console.error('[Insights] DB query failed:', err.message);
@@ -101,7 +128,13 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
           const start = new Date();
           start.setDate(start.getDate() - 7);
           entriesForAIValidated = req.body.entries
-            .map((e: any) => ({ date: e.createdAt || e.date || new Date().toISOString(), mood: e.mood || e.moodEmoji || '', text: String(e.content || e.text || '') }))
+            .map((e: any): AIEntry => ({
+              date: e.createdAt || e.date || new Date().toISOString(),
+              mood: resolveMood(e.mood || e.moodEmoji, customMoods)?.label.toLowerCase() || String(e.mood || e.moodEmoji || '').toLowerCase(),
+              text: String(e.content || e.text || ''),
+              day: typeof e.entryDate === 'string' && isValidDateKey(e.entryDate) ? e.entryDate : undefined,
+              timeZone: typeof e.timeZone === 'string' && isValidTimeZone(e.timeZone) ? e.timeZone : undefined,
+            }))
             .filter((e: any) => {
               const d = new Date(e.date);
               return d >= start && d <= end;
@@ -141,7 +174,7 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
     const moodCounts: Record<string, number> = {};
     const textEntries: string[] = [];
     entriesForAIValidated.forEach((e) => {
-      if (e.mood) moodCounts[e.mood]++;
+      if (e.mood) moodCounts[e.mood] = (moodCounts[e.mood] || 0) + 1;
       if (e.text && String(e.text).trim().length > 0) textEntries.push(String(e.text).trim());
     });
 
@@ -182,8 +215,11 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
     };
     const dayTimeCounts: Record<string, number> = {};
     entriesForAIValidated.forEach((e) => {
+      // Read in the zone the entry was written in; entries sent without one fall back to the server's
       const d = new Date(e.date);
-      const label = `${dayNames[d.getDay()]} ${timeBuckets(d.getHours())}`;
+      const day = e.day ? dayOfWeek(e.day) : d.getDay();
+      const hour = e.timeZone ? hourInZone(d, e.timeZone) : d.getHours();
+      const label = `${dayNames[day]} ${timeBuckets(hour)}`;
       dayTimeCounts[label] = (dayTimeCounts[label] || 0) + 1;
     });
     const mostWrittenDayAndTime = Object.entries(dayTimeCounts).sort((a, b) => b[1] - a[1])[0]?.[0];
@@ -394,6 +430,8 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
       } else if (!forceGenerate && !responsePayload.isFallback) {
         aiResultCache['anon'] = { latestEntryAt, timestamp: Date.now(), result: responsePayload };
       }
+      // Other devices can show the new insight without generating their own
+      if (userId && !responsePayload.isFallback) publishUserEvent(userId, { type: 'insight.ready', insight: responsePayload });
 
       return res.status(200).json(responsePayload);
     } catch (err: any) {
@@ -488,6 +526,58 @@ const handleInsightsAI = async (req: express.Request, res: express.Response) =>
   }
 };
 
+const weeklyQuerySchema = z.object({
+  start: dateKeySchema.optional(),
+  journalId: z.string().optional(),
+});
+
+// GET /insights/weekly?start=YYYY-MM-DD&journalId= - deterministic weekly stats (no AI). Weeks are calendar
+// days in the user's time zone, starting on the current Sunday there when `start` is omitted. Stats for a
+// single journal are not cached.
+router.get('/weekly', authMiddleware as any, async (req, res, next) => {
+  try {
+    const parsed = weeklyQuerySchema.parse(req.query);
+    const userId = req.user!.userId;
+    const weekStart = parseWeekStart(parsed.start, await getUserTimeZone(prisma, userId));
+
+    const weekEnd = addDaysToKey(weekStart, 7);
+    const entries = await prisma.entry.findMany({
+      where: {
+        userId,
+        journalId: parsed.journalId,
+        deletedAt: null,
+        entryDate: { gte: dateKeyToUtc(addDaysToKey(weekStart, -7)), lt: dateKeyToUtc(weekEnd) },
+      },
+      orderBy: [{ entryDate: 'asc' }, { createdAt: 'asc' }],
+      select: { content: true, moodEmoji: true, moodTags: true, entryDate: true, timeZone: true, createdAt: true },
+    });
+
+    const customMoods = await getCustomMoods(prisma, userId);
+    const stats = computeWeeklyStats(entries, weekStart, customMoods);
+    if (parsed.journalId) return res.json(stats);
+
+    // Keep the AI cache metadata (latestEntryAt) intact when storing the weekly stats.
+    const existing = await prisma.insightCache.findUnique({ where: { userId } });
+    let meta: any = {};
+    try {
+      meta = JSON.parse(existing?.deterministicJson || '{}');
+    } catch {
+      meta = {};
+    }
+    const deterministicJson = JSON.stringify({ ...meta, weekly: stats });
+    const period = { periodStart: dateKeyToUtc(weekStart), periodEnd: dateKeyToUtc(weekEnd) };
+    await prisma.insightCache.upsert({
+      where: { userId },
+      update: { ...period, deterministicJson },
+      create: { userId, ...period, deterministicJson },
+    });
+
+    res.json(stats);
+  } catch (err) {
+    next(err);
+  }
+});
+
 router.post('/ai', handleInsightsAI);
 
 export default router;
@@ -0,0 +1,112 @@
+import express from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { journalSchema } from '../utils/validation';
+import { journalSelect } from '../utils/journals';
+import { publishUserEvent } from '../utils/userEvents';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const createSchema = journalSchema.extend({
+  isDefault: z.literal(true).optional(),
+});
+
+// There is always one default, so it can only be handed to another journal, not switched off
+const updateSchema = journalSchema.partial().extend({
+  isDefault: z.literal(true).optional(),
+});
+
+const deleteQuerySchema = z.object({
+  moveTo: z.string().optional(),
+});
+
+const nameTaken = async (userId: string, name: string, exceptId?: string) =>
+  !!(await prisma.journal.findFirst({
+    where: { userId, name: { equals: name, mode: 'insensitive' }, id: exceptId ? { not: exceptId } : undefined },
+  }));
+
+router.use(authMiddleware as any);
+
+// GET /journals - the user's journals, default first, with how many entries each holds (trash excluded)
+router.get('/', async (req, res, next) => {
+  try {
+    const journals = await prisma.journal.findMany({
+      where: { userId: req.user!.userId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      select: { ...journalSelect, _count: { select: { entries: { where: { deletedAt: null } } } } },
+    });
+    res.json({ journals: journals.map(({ _count, ...journal }) => ({ ...journal, entryCount: _count.entries })) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/', async (req, res, next) => {
+  try {
+    const { isDefault, ...parsed } = createSchema.parse(req.body);
+    const userId = req.user!.userId;
+    if (await nameTaken(userId, parsed.name)) return res.status(400).json({ error: 'Journal already exists' });
+
+    const created = await prisma.$transaction(async (tx) => {
+      if (isDefault) await tx.journal.updateMany({ where: { userId, isDefault: true }, data: { isDefault: false } });
+      return tx.journal.create({ data: { ...parsed, userId, isDefault: !!isDefault }, select: journalSelect });
+    });
+    publishUserEvent(userId, { type: 'journals.changed' });
+    res.json(created);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const parsed = updateSchema.parse(req.body);
+    const userId = req.user!.userId;
+    const journal = await prisma.journal.findUnique({ where: { id: req.params.id } });
+    if (!journal || journal.userId !== userId) return res.status(404).json({ error: 'Not found' });
+    if (parsed.name && (await nameTaken(userId, parsed.name, journal.id))) {
+      return res.status(400).json({ error: 'Journal already exists' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (parsed.isDefault) {
+        await tx.journal.updateMany({ where: { userId, isDefault: true, id: { not: journal.id } }, data: { isDefault: false } });
+      }
+      return tx.journal.update({ where: { id: journal.id }, data: parsed, select: journalSelect });
+    });
+    publishUserEvent(userId, { type: 'journals.changed' });
+    res.json(updated);
+  } catch (err) { next(err); }
+});
+
+// DELETE /journals/:id?moveTo=<journalId> - entries (trashed ones too) move to `moveTo`, or to the default journal
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const { moveTo } = deleteQuerySchema.parse(req.query);
+    const userId = req.user!.userId;
+    const journal = await prisma.journal.findUnique({ where: { id: req.params.id } });
+    if (!journal || journal.userId !== userId) return res.status(404).json({ error: 'Not found' });
+    if (journal.isDefault) return res.status(400).json({ error: 'Make another journal the default before deleting this one' });
+
+    const target = await prisma.journal.findFirst({
+      where: moveTo ? { id: moveTo, userId } : { userId, isDefault: true },
+      select: { id: true },
+    });
+    if (!target || target.id === journal.id) return res.status(400).json({ error: 'Unknown journal to move entries to' });
+
+    const [moved] = await prisma.$transaction([
+      prisma.entry.updateMany({
+        where: { journalId: journal.id },
+        data: { journalId: target.id, version: { increment: 1 } },
+      }),
+      prisma.journal.delete({ where: { id: journal.id } }),
+    ]);
+    publishUserEvent(userId, { type: 'journals.changed' });
+    if (moved.count > 0) publishUserEvent(userId, { type: 'entries.changed' });
+    res.json({ ok: true, moved: moved.count });
+  } catch (err) { next(err); }
+});
+
+export default router;
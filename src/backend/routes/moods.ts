@@ -0,0 +1,90 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { customMoodSchema } from '../utils/validation';
+import { getCustomMoods } from '../utils/moods';
+import { publishUserEvent } from '../utils/userEvents';
+import { MOODS, isReservedMoodLabel } from '../../shared/moods';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const updateSchema = customMoodSchema.partial();
+
+router.use(authMiddleware as any);
+
+// GET /moods - built-in registry plus the user's custom moods
+router.get('/', async (req, res, next) => {
+  try {
+    const custom = await getCustomMoods(prisma, req.user!.userId);
+    res.json({ builtIn: MOODS, custom });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/', async (req, res, next) => {
+  try {
+    const parsed = customMoodSchema.parse(req.body);
+    const userId = req.user!.userId;
+    if (isReservedMoodLabel(parsed.label)) return res.status(400).json({ error: 'A built-in mood already uses that name' });
+
+    const existing = await prisma.mood.findFirst({ where: { userId, label: { equals: parsed.label, mode: 'insensitive' } } });
+    if (existing) return res.status(400).json({ error: 'Mood already exists' });
+
+    const created = await prisma.mood.create({ data: { ...parsed, userId } });
+    res.json(created);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const parsed = updateSchema.parse(req.body);
+    const userId = req.user!.userId;
+    const mood = await prisma.mood.findUnique({ where: { id: req.params.id } });
+    if (!mood || mood.userId !== userId) return res.status(404).json({ error: 'Not found' });
+
+    if (parsed.label && parsed.label.toLowerCase() !== mood.label.toLowerCase()) {
+      if (isReservedMoodLabel(parsed.label)) return res.status(400).json({ error: 'A built-in mood already uses that name' });
+      const clash = await prisma.mood.findFirst({ where: { userId, label: { equals: parsed.label, mode: 'insensitive' } } });
+      if (clash) return res.status(400).json({ error: 'Mood already exists' });
+    }
+
+    const updated = await prisma.mood.update({ where: { id: mood.id }, data: parsed });
+    res.json(updated);
+  } catch (err) { next(err); }
+});
+
+// Deleting a mood clears it from the user's entries rather than leaving dangling ids
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const mood = await prisma.mood.findUnique({ where: { id: req.params.id } });
+    if (!mood || mood.userId !== userId) return res.status(404).json({ error: 'Not found' });
+
+    const affected = await prisma.entry.findMany({
+      where: { userId, OR: [{ moodEmoji: mood.id }, { moodTags: { has: mood.id } }] },
+      select: { id: true, moodEmoji: true, moodTags: true },
+    });
+
+    await prisma.$transaction([
+      ...affected.map((entry) =>
+        prisma.entry.update({
+          where: { id: entry.id },
+          data: {
+            moodEmoji: entry.moodEmoji === mood.id ? null : entry.moodEmoji,
+            moodTags: entry.moodTags.filter((tag) => tag !== mood.id),
+            version: { increment: 1 },
+          },
+        })
+      ),
+      prisma.mood.delete({ where: { id: mood.id } }),
+    ]);
+    if (affected.length > 0) publishUserEvent(userId, { type: 'entries.changed' });
+    res.json({ ok: true });
+  } catch (err) { next(err); }
+});
+
+export default router;
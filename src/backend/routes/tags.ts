@@ -0,0 +1,109 @@
+import express from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { tagNameSchema } from '../utils/validation';
+import { rewriteHashtag } from '../utils/tags';
+import { publishUserEvent } from '../utils/userEvents';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const renameSchema = z.object({ name: tagNameSchema });
+
+const mergeSchema = z.object({ into: z.string().min(1) });
+
+// Entries in the trash keep their tags for a restore but aren't counted
+const withEntryCount = { _count: { select: { entries: { where: { deletedAt: null } } } } } as const;
+
+const toResponse = (tag: { id: string; name: string; createdAt: Date; _count: { entries: number } }) => ({
+  id: tag.id,
+  name: tag.name,
+  entryCount: tag._count.entries,
+  createdAt: tag.createdAt,
+});
+
+router.use(authMiddleware as any);
+
+// GET /tags - the user's tags with how many entries use each
+router.get('/', async (req, res, next) => {
+  try {
+    const tags = await prisma.tag.findMany({
+      where: { userId: req.user!.userId },
+      orderBy: { name: 'asc' },
+      include: withEntryCount,
+    });
+    res.json(tags.map(toResponse));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Renaming also rewrites the hashtag in every entry that uses it
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const { name } = renameSchema.parse(req.body);
+    const userId = req.user!.userId;
+    const tag = await prisma.tag.findUnique({ where: { id: req.params.id } });
+    if (!tag || tag.userId !== userId) return res.status(404).json({ error: 'Not found' });
+
+    if (name !== tag.name) {
+      const clash = await prisma.tag.findUnique({ where: { userId_name: { userId, name } } });
+      if (clash) return res.status(400).json({ error: 'Tag already exists; merge the tags instead' });
+
+      await prisma.$transaction(async (tx) => {
+        await rewriteHashtag(tx, tag.id, tag.name, name);
+        await tx.tag.update({ where: { id: tag.id }, data: { name } });
+      });
+      publishUserEvent(userId, { type: 'entries.changed' });
+    }
+
+    const updated = await prisma.tag.findUniqueOrThrow({ where: { id: tag.id }, include: withEntryCount });
+    res.json(toResponse(updated));
+  } catch (err) { next(err); }
+});
+
+// POST /tags/:id/merge - moves this tag's entries onto `into` and deletes it
+router.post('/:id/merge', async (req, res, next) => {
+  try {
+    const { into } = mergeSchema.parse(req.body);
+    const userId = req.user!.userId;
+    const [source, target] = await Promise.all([
+      prisma.tag.findUnique({ where: { id: req.params.id } }),
+      prisma.tag.findUnique({ where: { id: into } }),
+    ]);
+    if (!source || source.userId !== userId || !target || target.userId !== userId) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (source.id === target.id) return res.status(400).json({ error: 'Cannot merge a tag into itself' });
+
+    await prisma.$transaction(async (tx) => {
+      const entries = await tx.entry.findMany({ where: { tags: { some: { id: source.id } } }, select: { id: true } });
+      await rewriteHashtag(tx, source.id, source.name, target.name);
+      await tx.tag.update({ where: { id: target.id }, data: { entries: { connect: entries } } });
+      await tx.tag.delete({ where: { id: source.id } });
+    });
+    publishUserEvent(userId, { type: 'entries.changed' });
+
+    const merged = await prisma.tag.findUniqueOrThrow({ where: { id: target.id }, include: withEntryCount });
+    res.json(toResponse(merged));
+  } catch (err) { next(err); }
+});
+
+// Deleting a tag keeps its entries; their hashtags become plain words so the tag isn't recreated on the next edit
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const tag = await prisma.tag.findUnique({ where: { id: req.params.id } });
+    if (!tag || tag.userId !== userId) return res.status(404).json({ error: 'Not found' });
+
+    await prisma.$transaction(async (tx) => {
+      await rewriteHashtag(tx, tag.id, tag.name, null);
+      await tx.tag.delete({ where: { id: tag.id } });
+    });
+    publishUserEvent(userId, { type: 'entries.changed' });
+    res.json({ ok: true });
+  } catch (err) { next(err); }
+});
+
+export default router;
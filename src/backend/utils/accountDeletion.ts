@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client';
+import { revokeAllSessions } from './sessions';
+import { deleteAttachmentFiles } from './attachments';
+
+export const ACCOUNT_DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function scheduleAccountDeletion(prisma: PrismaClient, userId: string): Promise<Date> {
+  const now = new Date();
+  const deletionScheduledFor = new Date(now.getTime() + ACCOUNT_DELETION_GRACE_MS);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: now, deletionScheduledFor },
+  });
+  await revokeAllSessions(prisma, userId, 'account_deleted');
+  return deletionScheduledFor;
+}
+
+export async function restoreAccount(prisma: PrismaClient, userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null },
+  });
+}
+
+// Hard-deletes accounts whose grace period is over; entries, moods, sessions and insights cascade.
+// Photo files aren't in the database, so they are removed from storage first.
+export async function purgeExpiredAccounts(prisma: PrismaClient): Promise<number> {
+  const where = { deletionScheduledFor: { lte: new Date() } };
+  const attachments = await prisma.attachment.findMany({
+    where: { user: where },
+    select: { storageKey: true, thumbnailKey: true },
+  });
+  await deleteAttachmentFiles(attachments);
+  const { count } = await prisma.user.deleteMany({ where });
+  return count;
+}
+
+export function startAccountPurgeJob(prisma: PrismaClient): NodeJS.Timeout {
+  const run = () =>
+    purgeExpiredAccounts(prisma)
+      .then((count) => {
+        if (count > 0) console.log(`Purged ${count} deleted account(s)`);
+      })
+      .catch((err) => console.error('Account purge failed:', err));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
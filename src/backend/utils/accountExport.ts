@@ -0,0 +1,158 @@
+import type { Readable } from 'stream';
+import type { Archiver } from 'archiver';
+import { PrismaClient, type Entry } from '@prisma/client';
+import { resolveMood, type CustomMood } from '../../shared/moods';
+import { getCustomMoods } from './moods';
+import { entryTagsInclude } from './tags';
+import { journalSelect } from './journals';
+import { getStorage } from './storage';
+import { countWords } from '../../shared/markdown';
+import { utcDateKey } from '../../shared/dates';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+// JSON strings are valid double-quoted YAML scalars, which saves hand-rolled escaping
+const yamlString = (value: string) => JSON.stringify(value);
+
+const yamlList = (values: string[]) => (values.length ? `[${values.map(yamlString).join(', ')}]` : '[]');
+
+const moodLabel = (value: string | null | undefined, customMoods: CustomMood[]) =>
+  value ? resolveMood(value, customMoods)?.label ?? value : undefined;
+
+type ExportedEntry = Entry & { tags: { name: string }[]; journal: { name: string } };
+
+export function entryToMarkdown(entry: ExportedEntry, customMoods: CustomMood[]): string {
+  const mood = moodLabel(entry.moodEmoji, customMoods);
+  const moodTags = entry.moodTags.map((tag) => moodLabel(tag, customMoods) ?? tag);
+  const frontMatter = [
+    '---',
+    `id: ${yamlString(entry.id)}`,
+    `journal: ${yamlString(entry.journal.name)}`,
+    `date: ${yamlString(entry.createdAt.toISOString())}`,
+    `day: ${yamlString(utcDateKey(entry.entryDate))}`,
+    `timeZone: ${yamlString(entry.timeZone)}`,
+    `updated: ${yamlString(entry.updatedAt.toISOString())}`,
+    ...(mood ? [`mood: ${yamlString(mood)}`] : []),
+    ...(moodTags.length ? [`moods: ${yamlList(moodTags)}`] : []),
+    `tags: ${yamlList(entry.tags.map((tag) => tag.name))}`,
+    '---',
+  ];
+  return `${frontMatter.join('\n')}\n\n${entry.content.trim()}\n`;
+}
+
+export const entryFileName = (entry: Entry) => `${utcDateKey(entry.entryDate)}-${entry.id}.md`;
+
+const PHOTO_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+/**
+ * Writes everything the server holds for a user into the archive:
+ * entries.json, one Markdown file per entry, photos, custom moods, cached insights and a manifest.
+ * The caller owns the archive and finalizes it.
+ */
+export async function writeAccountExport(prisma: PrismaClient, userId: string, archive: Archiver): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, createdAt: true },
+  });
+  const entries = await prisma.entry.findMany({
+    where: { userId, deletedAt: null },
+    orderBy: [{ entryDate: 'asc' }, { createdAt: 'asc' }],
+    include: {
+      ...entryTagsInclude,
+      journal: { select: { name: true } },
+      attachments: { select: { id: true, contentType: true, storageKey: true }, orderBy: { createdAt: 'asc' } },
+    },
+  });
+  const customMoods = await getCustomMoods(prisma, userId);
+  const journals = await prisma.journal.findMany({ where: { userId }, orderBy: { createdAt: 'asc' }, select: journalSelect });
+  const insightCache = await prisma.insightCache.findUnique({ where: { userId } });
+
+  const files: string[] = [];
+  const add = (name: string, content: string | Readable) => {
+    archive.append(content, { name });
+    files.push(name);
+  };
+
+  const photoPath = (entry: Entry, attachment: { id: string; contentType: string }) =>
+    `photos/${entryFileName(entry).replace(/\.md$/, '')}/${attachment.id}.${PHOTO_EXTENSIONS[attachment.contentType] ?? 'bin'}`;
+
+  add(
+    'entries.json',
+    JSON.stringify(
+      entries.map((entry) => ({
+        id: entry.id,
+        journal: entry.journal.name,
+        content: entry.content,
+        mood: entry.moodEmoji,
+        moodTags: entry.moodTags,
+        tags: entry.tags.map((tag) => tag.name),
+        photos: entry.attachments.map((attachment) => photoPath(entry, attachment)),
+        wordCount: countWords(entry.content),
+        entryDate: utcDateKey(entry.entryDate),
+        timeZone: entry.timeZone,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+      })),
+      null,
+      2
+    )
+  );
+
+  for (const entry of entries) {
+    add(`entries/${entryFileName(entry)}`, entryToMarkdown(entry, customMoods));
+  }
+
+  let photoCount = 0;
+  for (const entry of entries) {
+    for (const attachment of entry.attachments) {
+      const file = await getStorage().get(attachment.storageKey);
+      if (!file) continue;
+      add(photoPath(entry, attachment), file);
+      photoCount++;
+    }
+  }
+
+  add('moods.json', JSON.stringify(customMoods, null, 2));
+  add('journals.json', JSON.stringify(journals, null, 2));
+
+  if (insightCache) {
+    const parse = (value: string | null) => {
+      if (!value) return null;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    };
+    add(
+      'insights.json',
+      JSON.stringify(
+        {
+          periodStart: insightCache.periodStart,
+          periodEnd: insightCache.periodEnd,
+          deterministic: parse(insightCache.deterministicJson),
+          ai: parse(insightCache.aiJson),
+          updatedAt: insightCache.updatedAt,
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  archive.append(
+    JSON.stringify(
+      {
+        format: 'ink-export',
+        version: EXPORT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        user,
+        counts: { entries: entries.length, photos: photoCount, customMoods: customMoods.length, journals: journals.length },
+        files,
+      },
+      null,
+      2
+    ),
+    { name: 'manifest.json' }
+  );
+}
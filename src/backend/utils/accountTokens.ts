@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { hashToken } from './sessions';
+import { getMailer } from './mailer';
+
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+
+export async function sendVerificationEmail(prisma: PrismaClient, user: { id: string; email: string }): Promise<void> {
+  const secret = newSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      emailVerificationTokenHash: hashToken(secret),
+      emailVerificationExpiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+    },
+  });
+  const link = `${frontendUrl()}/?verifyEmail=${secret}`;
+  await getMailer().send({
+    to: user.email,
+    subject: 'Confirm your email for Ink',
+    text: `Welcome to Ink.\n\nConfirm your email address by opening this link within 24 hours:\n${link}\n`,
+  });
+}
+
+export async function sendPasswordResetEmail(prisma: PrismaClient, user: { id: string; email: string }): Promise<void> {
+  const secret = newSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      passwordResetTokenHash: hashToken(secret),
+      passwordResetExpiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+    },
+  });
+  const link = `${frontendUrl()}/?resetToken=${secret}`;
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your Ink password',
+    text:
+      `Someone asked to reset the password for your Ink account.\n\n` +
+      `Choose a new password within the next hour:\n${link}\n\n` +
+      `If this wasn't you, you can ignore this email.\n`,
+  });
+}
+
+// Returns the user id and clears the token, or null when it is unknown, used or expired. The token is
+// spent by a conditional update, so of two requests racing with the same link only one gets through.
+export async function consumeEmailVerificationToken(prisma: PrismaClient, secret: string): Promise<string | null> {
+  const tokenHash = hashToken(secret);
+  const user = await prisma.user.findUnique({ where: { emailVerificationTokenHash: tokenHash }, select: { id: true } });
+  if (!user) return null;
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, emailVerificationTokenHash: tokenHash, emailVerificationExpiresAt: { gt: new Date() } },
+    data: { emailVerifiedAt: new Date(), emailVerificationTokenHash: null, emailVerificationExpiresAt: null },
+  });
+  return count === 1 ? user.id : null;
+}
+
+export async function consumePasswordResetToken(
+  prisma: PrismaClient,
+  secret: string,
+  passwordHash: string
+): Promise<string | null> {
+  const tokenHash = hashToken(secret);
+  const user = await prisma.user.findUnique({ where: { passwordResetTokenHash: tokenHash }, select: { id: true } });
+  if (!user) return null;
+  const consumed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.user.updateMany({
+      where: { id: user.id, passwordResetTokenHash: tokenHash, passwordResetExpiresAt: { gt: new Date() } },
+      data: { passwordHash, passwordResetTokenHash: null, passwordResetExpiresAt: null },
+    });
+    // Following the emailed link proves the address too
+    if (count === 1) {
+      await tx.user.updateMany({ where: { id: user.id, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+    }
+    return count === 1;
+  });
+  return consumed ? user.id : null;
+}
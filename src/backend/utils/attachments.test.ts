@@ -0,0 +1,61 @@
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { createAttachment } from './attachments';
+
+describe('createAttachment', () => {
+  let directory: string;
+  const created: any[] = [];
+
+  // Records the attachment row; the transaction just runs the queries it is given
+  const prisma = {
+    attachment: {
+      create: async ({ data }: { data: unknown }) => {
+        created.push(data);
+        return data;
+      },
+    },
+    entry: { update: async () => ({}) },
+    $transaction: (queries: Promise<unknown>[]) => Promise.all(queries),
+  } as unknown as PrismaClient;
+
+  beforeAll(async () => {
+    directory = await fsp.mkdtemp(path.join(os.tmpdir(), 'ink-attachments-'));
+    process.env.STORAGE_DRIVER = 'local';
+    process.env.STORAGE_DIR = directory;
+  });
+
+  afterAll(async () => {
+    await fsp.rm(directory, { recursive: true, force: true });
+  });
+
+  it('strips camera metadata, applies the orientation and renders a WebP thumbnail', async () => {
+    // A landscape camera photo taken with the phone turned (orientation 6: rotate 90° to view)
+    const photo = await sharp({ create: { width: 1600, height: 800, channels: 3, background: '#b45309' } })
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Make: 'TestCam', Model: 'Ink 1' } } })
+      .toBuffer();
+
+    const attachment = await createAttachment(prisma, 'user-1', 'entry-1', photo);
+    expect(attachment).toMatchObject({ entryId: 'entry-1', contentType: 'image/jpeg', width: 800, height: 1600 });
+
+    const original = await sharp(await fsp.readFile(path.join(directory, created[0].storageKey))).metadata();
+    expect(original).toMatchObject({ format: 'jpeg', width: 800, height: 1600 });
+    expect(original.exif).toBeUndefined();
+    expect(original.orientation).toBeUndefined();
+
+    const thumbnail = await sharp(await fsp.readFile(path.join(directory, created[0].thumbnailKey))).metadata();
+    expect(thumbnail).toMatchObject({ format: 'webp', width: 200, height: 400 });
+  });
+
+  it('refuses files that are not JPEG, PNG or WebP', async () => {
+    const gif = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#000' } }).gif().toBuffer();
+    await expect(createAttachment(prisma, 'user-1', 'entry-1', gif)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(createAttachment(prisma, 'user-1', 'entry-1', Buffer.from('not an image'))).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
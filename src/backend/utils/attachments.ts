@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { PrismaClient, type Attachment } from '@prisma/client';
+import { HttpError } from '../middleware/errorMiddleware';
+import { getStorage } from './storage';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_FILES_PER_UPLOAD = 10;
+export const MAX_ATTACHMENTS_PER_ENTRY = 20;
+const THUMBNAIL_SIZE = 400;
+
+// Accepted formats, keyed by what sharp detects in the file; the content type the client sends isn't trusted
+const IMAGE_FORMATS = { jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' } as const;
+type ImageFormat = keyof typeof IMAGE_FORMATS;
+
+// What clients see of an attachment; the files are served from /attachments/:id and /attachments/:id/thumbnail
+export const entryAttachmentsInclude = {
+  attachments: {
+    select: { id: true, contentType: true, size: true, width: true, height: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+/**
+ * Re-encodes an uploaded image. Rotating applies the EXIF orientation, and sharp writes the result
+ * without any metadata, so camera details and GPS position are stripped. Also renders a WebP thumbnail.
+ */
+async function processImage(file: Buffer) {
+  const metadata = await sharp(file).metadata().catch(() => null);
+  const format = metadata?.format;
+  if (!format || !(format in IMAGE_FORMATS)) throw new HttpError(400, 'Unsupported image type; use JPEG, PNG or WebP');
+
+  const { data, info } = await sharp(file).rotate().toFormat(format as ImageFormat).toBuffer({ resolveWithObject: true });
+  const thumbnail = await sharp(data)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+  return { data, thumbnail, width: info.width, height: info.height, contentType: IMAGE_FORMATS[format as ImageFormat] };
+}
+
+// Stores the image and its thumbnail, then records the attachment. The entry is touched so delta sync picks it up.
+export async function createAttachment(prisma: PrismaClient, userId: string, entryId: string, file: Buffer) {
+  const image = await processImage(file);
+  const id = randomUUID();
+  const storageKey = `${userId}/${id}`;
+  const thumbnailKey = `${userId}/${id}-thumbnail.webp`;
+
+  const storage = getStorage();
+  await storage.put(storageKey, image.data, image.contentType);
+  await storage.put(thumbnailKey, image.thumbnail, 'image/webp');
+
+  try {
+    const [attachment] = await prisma.$transaction([
+      prisma.attachment.create({
+        data: {
+          id,
+          entryId,
+          userId,
+          contentType: image.contentType,
+          size: image.data.length,
+          width: image.width,
+          height: image.height,
+          storageKey,
+          thumbnailKey,
+        },
+        select: entryAttachmentsInclude.attachments.select,
+      }),
+      prisma.entry.update({ where: { id: entryId }, data: { updatedAt: new Date() } }),
+    ]);
+    return attachment;
+  } catch (err) {
+    await storage.delete([storageKey, thumbnailKey]).catch(() => {});
+    throw err;
+  }
+}
+
+// Database rows go with their entry or user by cascade; the files have to be removed separately
+export async function deleteAttachmentFiles(attachments: Pick<Attachment, 'storageKey' | 'thumbnailKey'>[]) {
+  if (attachments.length === 0) return;
+  await getStorage().delete(attachments.flatMap((attachment) => [attachment.storageKey, attachment.thumbnailKey]));
+}
@@ -0,0 +1,25 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_TIME_ZONE, DATE_KEY_PATTERN, dateKeyInZone, isValidDateKey } from '../../shared/dates';
+import { HttpError } from '../middleware/errorMiddleware';
+
+export async function getUserTimeZone(prisma: PrismaClient, userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timeZone: true } });
+  return user?.timeZone ?? DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Reads a day-valued query parameter such as `from` or `to`. A calendar day is taken as is; a timestamp
+ * becomes the day it falls on in `timeZone`, which should be the user's.
+ */
+export function parseDayParam(name: string, value: unknown, timeZone: string): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value === 'string') {
+    if (DATE_KEY_PATTERN.test(value)) {
+      if (isValidDateKey(value)) return value;
+    } else {
+      const date = new Date(value);
+      if (!Number.isNaN(date.getTime())) return dateKeyInZone(date, timeZone);
+    }
+  }
+  throw new HttpError(400, `${name} must be a date (YYYY-MM-DD) or an ISO timestamp`);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { getEntryChanges, parseChangesCursor } from './entrySync';
+
+describe('parseChangesCursor', () => {
+  it('reads a timestamp with an optional entry id', () => {
+    expect(parseChangesCursor('2026-10-01T09:00:00.000Z')).toEqual({ at: new Date('2026-10-01T09:00:00.000Z') });
+    expect(parseChangesCursor('2026-10-01T09:00:00.000Z|entry-1')).toEqual({
+      at: new Date('2026-10-01T09:00:00.000Z'),
+      afterId: 'entry-1',
+    });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseChangesCursor(undefined)).toBeNull();
+    expect(parseChangesCursor('')).toBeNull();
+    expect(parseChangesCursor('yesterday')).toBeNull();
+    expect(parseChangesCursor(['2026-10-01T09:00:00.000Z'])).toBeNull();
+  });
+});
+
+describe('getEntryChanges', () => {
+  const at = new Date('2026-10-01T09:00:00.000Z');
+  const rows = ['a', 'b', 'c'].map((id) => ({ id, updatedAt: at }));
+
+  function fakePrisma() {
+    const calls: { entries: any[]; tombstones: any[] } = { entries: [], tombstones: [] };
+    const prisma = {
+      entry: {
+        findMany: async (args: { take: number }) => {
+          calls.entries.push(args);
+          return rows.slice(0, args.take);
+        },
+      },
+      entryTombstone: {
+        findMany: async (args: unknown) => {
+          calls.tombstones.push(args);
+          return [{ entryId: 'gone', deletedAt: at }];
+        },
+      },
+    } as unknown as PrismaClient;
+    return { prisma, calls };
+  }
+
+  it('pages through entries that share a timestamp by id', async () => {
+    const { prisma } = fakePrisma();
+    const page = await getEntryChanges(prisma, 'user-1', null, 2);
+    expect(page.entries.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(page.hasMore).toBe(true);
+    expect(page.cursor).toBe(`${at.toISOString()}|b`);
+    expect(page.tombstones).toEqual([]);
+  });
+
+  it('continues after the cursor and reports tombstones', async () => {
+    const { prisma, calls } = fakePrisma();
+    const page = await getEntryChanges(prisma, 'user-1', { at, afterId: 'b' });
+    expect(calls.entries[0].where).toEqual({
+      userId: 'user-1',
+      OR: [{ updatedAt: { gt: at } }, { updatedAt: at, id: { gt: 'b' } }],
+    });
+    expect(page.hasMore).toBe(false);
+    expect(page.tombstones).toEqual([{ id: 'gone', deletedAt: at }]);
+    // Once caught up, the next sync starts a little before now so late commits aren't missed
+    expect(parseChangesCursor(page.cursor)!.at.getTime()).toBeLessThan(Date.now());
+  });
+});
@@ -0,0 +1,71 @@
+import { PrismaClient } from '@prisma/client';
+import { entryTagsInclude } from './tags';
+import { entryAttachmentsInclude } from './attachments';
+
+// Writes that commit slightly after we read can carry an earlier updatedAt, so each sync re-reads
+// this much of the recent past. Clients merge idempotently, so the overlap only costs bandwidth.
+const SYNC_OVERLAP_MS = 5000;
+
+export const MAX_CHANGES_PAGE = 500;
+
+interface ChangesCursor {
+  at: Date;
+  afterId?: string; // Set while paging through entries that share a timestamp
+}
+
+// Cursors are opaque to clients: an ISO timestamp, optionally followed by "|<entry id>"
+export function parseChangesCursor(value: unknown): ChangesCursor | null {
+  if (typeof value !== 'string' || !value) return null;
+  const [iso, afterId] = value.split('|');
+  const at = new Date(iso);
+  if (Number.isNaN(at.getTime())) return null;
+  return { at, afterId: afterId || undefined };
+}
+
+const formatCursor = (cursor: ChangesCursor) => `${cursor.at.toISOString()}${cursor.afterId ? `|${cursor.afterId}` : ''}`;
+
+// A cursor for "from now on", for clients that load the journal some other way and only need deltas afterwards
+export const currentChangesCursor = () => formatCursor({ at: new Date(Date.now() - SYNC_OVERLAP_MS) });
+
+/**
+ * Everything that changed for a user since `since`: entries (trashed ones carry deletedAt) and tombstones
+ * for entries deleted for good. Without a cursor every entry is returned. Keep calling with the returned
+ * cursor while hasMore is true.
+ */
+export async function getEntryChanges(prisma: PrismaClient, userId: string, since: ChangesCursor | null, limit = MAX_CHANGES_PAGE) {
+  const startedAt = Date.now();
+  const updatedAfter = since
+    ? since.afterId
+      ? { OR: [{ updatedAt: { gt: since.at } }, { updatedAt: since.at, id: { gt: since.afterId } }] }
+      : { updatedAt: { gt: since.at } }
+    : {};
+
+  const entries = await prisma.entry.findMany({
+    where: { userId, ...updatedAfter },
+    orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    include: { ...entryTagsInclude, ...entryAttachmentsInclude },
+  });
+  const hasMore = entries.length > limit;
+  if (hasMore) entries.length = limit;
+
+  // A first sync has nothing to remove, so tombstones only matter with a cursor
+  const tombstones = since
+    ? await prisma.entryTombstone.findMany({
+        where: { userId, deletedAt: { gt: since.at } },
+        select: { entryId: true, deletedAt: true },
+      })
+    : [];
+
+  const last = entries[entries.length - 1];
+  const next: ChangesCursor = hasMore
+    ? { at: last.updatedAt, afterId: last.id }
+    : { at: new Date(Math.max(startedAt - SYNC_OVERLAP_MS, since?.at.getTime() ?? 0)) };
+
+  return {
+    entries,
+    tombstones: tombstones.map((t) => ({ id: t.entryId, deletedAt: t.deletedAt })),
+    cursor: formatCursor(next),
+    hasMore,
+  };
+}
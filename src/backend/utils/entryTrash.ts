@@ -0,0 +1,61 @@
+import { PrismaClient } from '@prisma/client';
+import { pruneUnusedTags } from './tags';
+import { deleteAttachmentFiles } from './attachments';
+
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const trashPurgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + TRASH_RETENTION_MS);
+
+/**
+ * Deletes trashed entries for good, leaving a tombstone for each so other devices drop them on their next sync.
+ * Only entries that are already in the trash are touched.
+ */
+export async function deleteTrashedEntries(prisma: PrismaClient, userId: string, ids?: string[]): Promise<number> {
+  const where = { userId, deletedAt: { not: null }, ...(ids ? { id: { in: ids } } : {}) };
+  const entries = await prisma.entry.findMany({ where, select: { id: true } });
+  if (entries.length === 0) return 0;
+
+  const entryIds = entries.map((entry) => entry.id);
+  const attachments = await prisma.attachment.findMany({
+    where: { entryId: { in: entryIds } },
+    select: { storageKey: true, thumbnailKey: true },
+  });
+  await prisma.$transaction([
+    prisma.entryTombstone.createMany({ data: entryIds.map((entryId) => ({ entryId, userId })), skipDuplicates: true }),
+    prisma.entry.deleteMany({ where: { id: { in: entryIds } } }),
+  ]);
+  await pruneUnusedTags(prisma, userId);
+  await deleteAttachmentFiles(attachments);
+  return entryIds.length;
+}
+
+// Permanently deletes entries that have been in the trash longer than the retention period
+export async function purgeExpiredTrash(prisma: PrismaClient): Promise<number> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_MS);
+  const expired = await prisma.entry.findMany({
+    where: { deletedAt: { lte: cutoff } },
+    select: { id: true, userId: true },
+  });
+
+  const idsByUser = new Map<string, string[]>();
+  for (const entry of expired) idsByUser.set(entry.userId, [...(idsByUser.get(entry.userId) ?? []), entry.id]);
+
+  let count = 0;
+  for (const [userId, ids] of idsByUser) count += await deleteTrashedEntries(prisma, userId, ids);
+  return count;
+}
+
+export function startTrashPurgeJob(prisma: PrismaClient): NodeJS.Timeout {
+  const run = () =>
+    purgeExpiredTrash(prisma)
+      .then((count) => {
+        if (count > 0) console.log(`Purged ${count} trashed entr${count === 1 ? 'y' : 'ies'}`);
+      })
+      .catch((err) => console.error('Trash purge failed:', err));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
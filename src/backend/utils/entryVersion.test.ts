@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { entryETag, expectedVersion } from './entryVersion';
+
+describe('expectedVersion', () => {
+  it('reads the version from If-Match, strong or weak', () => {
+    expect(expectedVersion(entryETag({ version: 4 }))).toBe(4);
+    expect(expectedVersion(' W/"7" ')).toBe(7);
+  });
+
+  it('prefers If-Match over the body and falls back to it', () => {
+    expect(expectedVersion('"2"', 5)).toBe(2);
+    expect(expectedVersion(undefined, 5)).toBe(5);
+  });
+
+  it('makes the write unconditional for "*" or nothing', () => {
+    expect(expectedVersion('*', 5)).toBeUndefined();
+    expect(expectedVersion(undefined)).toBeUndefined();
+  });
+
+  it('rejects anything else with a 400', () => {
+    expect(() => expectedVersion('3')).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => expectedVersion('"abc"')).toThrow('Invalid If-Match header');
+  });
+});
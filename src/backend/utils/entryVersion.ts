@@ -0,0 +1,17 @@
+import { HttpError } from '../middleware/errorMiddleware';
+
+// Entry versions double as strong ETags, so a client can echo what it read back in If-Match
+export const entryETag = (entry: { version: number }) => `"${entry.version}"`;
+
+/**
+ * The version a write is conditional on. If-Match takes precedence over a `version` in the body;
+ * `*` or neither means the write goes through regardless (older clients send neither).
+ */
+export function expectedVersion(ifMatch: string | undefined, bodyVersion?: number): number | undefined {
+  if (ifMatch === undefined) return bodyVersion;
+  const value = ifMatch.trim();
+  if (value === '*') return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value);
+  if (!match) throw new HttpError(400, 'Invalid If-Match header');
+  return parseInt(match[1], 10);
+}
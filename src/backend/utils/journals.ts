@@ -0,0 +1,24 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_JOURNAL } from '../../shared/journals';
+
+export const journalSelect = { id: true, name: true, color: true, icon: true, isDefault: true } as const;
+
+export async function getDefaultJournalId(prisma: PrismaClient, userId: string): Promise<string> {
+  const journal = await prisma.journal.findFirst({ where: { userId, isDefault: true }, select: { id: true } });
+  if (journal) return journal.id;
+  // Accounts get theirs at sign-up or from the journals migration; this covers users made any other way
+  const created = await prisma.journal.create({ data: { ...DEFAULT_JOURNAL, userId, isDefault: true }, select: { id: true } });
+  return created.id;
+}
+
+/**
+ * The journal an entry should be written to. A journal the user doesn't have (most likely deleted while a
+ * client was offline with changes queued for it) falls back to the default rather than losing the write.
+ */
+export async function resolveJournalId(prisma: PrismaClient, userId: string, journalId?: string): Promise<string> {
+  if (journalId) {
+    const journal = await prisma.journal.findFirst({ where: { id: journalId, userId }, select: { id: true } });
+    if (journal) return journal.id;
+  }
+  return getDefaultJournalId(prisma, userId);
+}
@@ -1,19 +1,42 @@
 import jwt from 'jsonwebtoken';
 
-export function generateToken(userId: string, email: string): string {
+// Access tokens are short-lived; clients renew them with a refresh token (see utils/sessions.ts)
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  sessionId: string;
+  exp?: number; // Seconds since the epoch; added when the token is signed
+}
+
+export function generateToken(userId: string, email: string, sessionId: string): string {
   return jwt.sign(
-    { userId, email },
+    { userId, email, sessionId },
     process.env.JWT_SECRET || 'secret',
-    { expiresIn: '7d' }
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
   );
 }
 
-export function verifyToken(token: string): { userId: string; email: string } | null {
+export function verifyToken(token: string): AccessTokenPayload | null {
+  try {
+    return jwt.verify(token, process.env.JWT_SECRET || 'secret') as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Issued after a correct password when two-factor is on; only good for the code step of login
+const MFA_TOKEN_TTL_SECONDS = 5 * 60;
+
+export function generateMfaToken(userId: string): string {
+  return jwt.sign({ userId, purpose: 'mfa' }, process.env.JWT_SECRET || 'secret', { expiresIn: MFA_TOKEN_TTL_SECONDS });
+}
+
+export function verifyMfaToken(token: string): string | null {
   try {
-    return jwt.verify(token, process.env.JWT_SECRET || 'secret') as {
-      userId: string;
-      email: string;
-    };
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId?: string; purpose?: string };
+    return decoded.purpose === 'mfa' && decoded.userId ? decoded.userId : null;
   } catch {
     return null;
   }
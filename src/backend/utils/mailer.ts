@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = () => process.env.MAIL_FROM || 'Ink <no-reply@ink.local>';
+
+export class SmtpMailer implements Mailer {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { url?: string; host?: string; port?: number; user?: string; pass?: string }) {
+    this.transporter = options.url
+      ? nodemailer.createTransport(options.url)
+      : nodemailer.createTransport({
+          host: options.host,
+          port: options.port ?? 587,
+          secure: options.port === 465,
+          auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+        });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: defaultFrom(), ...message });
+  }
+}
+
+// Writes each message to its own JSON file so local runs and tests can read the links back
+export class FileMailer implements Mailer {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`;
+    const payload = { from: defaultFrom(), sentAt: new Date().toISOString(), ...message };
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(payload, null, 2));
+  }
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * Picks a transport from MAIL_TRANSPORT (`smtp`, `file` or `console`). Defaults to SMTP when
+ * SMTP settings are present and to the console otherwise, so development needs no setup.
+ */
+export function getMailer(): Mailer {
+  if (mailer) return mailer;
+  const hasSmtp = !!(process.env.SMTP_URL || process.env.SMTP_HOST);
+  const transport = process.env.MAIL_TRANSPORT || (hasSmtp ? 'smtp' : 'console');
+
+  if (transport === 'smtp') {
+    mailer = new SmtpMailer({
+      url: process.env.SMTP_URL,
+      host: process.env.SMTP_HOST,
+      port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    });
+  } else if (transport === 'file') {
+    mailer = new FileMailer(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail'));
+  } else {
+    mailer = new ConsoleMailer();
+  }
+  return mailer;
+}
+
+// Lets tests swap in their own transport
+export function setMailer(next: Mailer | null): void {
+  mailer = next;
+}
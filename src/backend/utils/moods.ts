@@ -0,0 +1,27 @@
+import { PrismaClient } from '@prisma/client';
+import { isMoodId, normalizeMood, type CustomMood } from '../../shared/moods';
+import { HttpError } from '../middleware/errorMiddleware';
+
+export async function getCustomMoods(prisma: PrismaClient, userId: string): Promise<CustomMood[]> {
+  return prisma.mood.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, label: true, emoji: true, color: true, score: true },
+  });
+}
+
+/**
+ * Resolves mood values sent by a client to the ids we store on entries.
+ * Built-ins are normalized; anything else must be one of the user's custom moods.
+ */
+export async function resolveMoodValues(prisma: PrismaClient, userId: string, values: string[]): Promise<string[]> {
+  const resolved = Array.from(new Set(values.map((v) => normalizeMood(v) ?? v)));
+  const customIds = resolved.filter((v) => !isMoodId(v));
+  if (customIds.length > 0) {
+    const found = await prisma.mood.findMany({ where: { userId, id: { in: customIds } }, select: { id: true } });
+    const known = new Set(found.map((m) => m.id));
+    const missing = customIds.find((id) => !known.has(id));
+    if (missing) throw new HttpError(400, `Unknown mood: ${missing}`);
+  }
+  return resolved;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryPubSub } from './pubsub';
+
+describe('InMemoryPubSub', () => {
+  it('delivers messages to the subscribers of their channel only', async () => {
+    const pubsub = new InMemoryPubSub();
+    const a: string[] = [];
+    const b: string[] = [];
+    await pubsub.subscribe('a', (message) => a.push(message));
+    await pubsub.subscribe('b', (message) => b.push(message));
+
+    await pubsub.publish('a', 'one');
+    await pubsub.publish('a', 'two');
+    expect(a).toEqual(['one', 'two']);
+    expect(b).toEqual([]);
+  });
+
+  it('stops delivering once unsubscribed and leaves no listener behind', async () => {
+    const pubsub = new InMemoryPubSub();
+    const kept: string[] = [];
+    const dropped: string[] = [];
+    await pubsub.subscribe('a', (message) => kept.push(message));
+    const unsubscribe = await pubsub.subscribe('a', (message) => dropped.push(message));
+
+    await unsubscribe();
+    await pubsub.publish('a', 'after');
+    expect(kept).toEqual(['after']);
+    expect(dropped).toEqual([]);
+    expect((pubsub as any).emitter.listenerCount('a')).toBe(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import Redis, { type RedisOptions } from 'ioredis';
+
+export type MessageListener = (message: string) => void;
+
+// Fan-out of messages between server instances. Subscribing resolves to a function that unsubscribes.
+export interface PubSub {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, listener: MessageListener): Promise<() => Promise<void>>;
+}
+
+// Single process only: fine for development and one-instance deployments
+export class InMemoryPubSub implements PubSub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream, so the default warning at 10 doesn't mean a leak here
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.emitter.emit(channel, message);
+  }
+
+  async subscribe(channel: string, listener: MessageListener): Promise<() => Promise<void>> {
+    this.emitter.on(channel, listener);
+    return async () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+}
+
+/**
+ * Redis PUBLISH/SUBSCRIBE, so every instance sees every message. Works with anything that speaks the
+ * Redis protocol (Redis, Valkey, KeyDB, Dragonfly). A subscribed connection can't publish, hence two.
+ */
+export class RedisPubSub implements PubSub {
+  private publisher: Redis;
+  private subscriber: Redis;
+  private listeners = new Map<string, Set<MessageListener>>();
+
+  constructor(url: string, options: RedisOptions = {}) {
+    this.publisher = new Redis(url, options);
+    this.subscriber = new Redis(url, options);
+    this.subscriber.on('message', (channel: string, message: string) => {
+      this.listeners.get(channel)?.forEach((listener) => listener(message));
+    });
+    for (const connection of [this.publisher, this.subscriber]) {
+      connection.on('error', (err) => console.error('Redis pub/sub error:', err.message));
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: MessageListener): Promise<() => Promise<void>> {
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+      await this.subscriber.subscribe(channel);
+    }
+    listeners.add(listener);
+
+    return async () => {
+      const current = this.listeners.get(channel);
+      if (!current?.delete(listener) || current.size > 0) return;
+      this.listeners.delete(channel);
+      await this.subscriber.unsubscribe(channel);
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
+
+let pubsub: PubSub | null = null;
+
+/**
+ * Picks a driver from PUBSUB_DRIVER (`memory` or `redis`). Defaults to Redis when REDIS_URL is set
+ * and to in-memory otherwise, so development needs no setup.
+ */
+export function getPubSub(): PubSub {
+  if (pubsub) return pubsub;
+  const driver = process.env.PUBSUB_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  if (driver === 'redis') {
+    if (!process.env.REDIS_URL) throw new Error('REDIS_URL is required for the redis pub/sub driver');
+    pubsub = new RedisPubSub(process.env.REDIS_URL);
+  } else {
+    pubsub = new InMemoryPubSub();
+  }
+  return pubsub;
+}
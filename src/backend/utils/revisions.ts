@@ -0,0 +1,24 @@
+import { Prisma, type Entry } from '@prisma/client';
+
+// Fields a revision keeps; other entry fields (tags, createdAt) are derived or never change
+export type RevisedFields = Pick<Entry, 'content' | 'moodEmoji'>;
+
+export const hasRevisedChanges = (entry: RevisedFields, next: RevisedFields) =>
+  entry.content !== next.content || entry.moodEmoji !== next.moodEmoji;
+
+/**
+ * Stores the entry's current version as its next revision.
+ * Call it inside the transaction that replaces that version.
+ */
+export async function snapshotRevision(tx: Prisma.TransactionClient, entry: Entry) {
+  const { _max } = await tx.entryRevision.aggregate({ where: { entryId: entry.id }, _max: { revision: true } });
+  return tx.entryRevision.create({
+    data: {
+      entryId: entry.id,
+      revision: (_max.revision ?? 0) + 1,
+      content: entry.content,
+      moodEmoji: entry.moodEmoji,
+      savedAt: entry.updatedAt,
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import { Prisma, PrismaClient, type Attachment, type Entry } from '@prisma/client';
+import { entryAttachmentsInclude } from './attachments';
+
+const SEARCH_CONFIG = 'english';
+
+export type SearchTerm =
+  | { kind: 'word'; value: string; negated: boolean }
+  | { kind: 'prefix'; value: string; negated: boolean }
+  | { kind: 'phrase'; value: string; negated: boolean };
+
+export interface EntrySearchOptions {
+  q: string;
+  journalId?: string;
+  from?: string; // Calendar days (YYYY-MM-DD), inclusive
+  to?: string;
+  moods?: string[];
+  tags?: string[]; // Tag names; entries must have all of them
+  take: number;
+  offset: number;
+}
+
+export type EntrySearchResult = Omit<Entry, 'searchVector'> & {
+  tags: { id: string; name: string }[];
+  attachments: Pick<Attachment, 'id' | 'contentType' | 'size' | 'width' | 'height' | 'createdAt'>[];
+  rank: number;
+  snippet: string;
+};
+
+// Letters and digits only: anything else is either syntax we handle ourselves or tsquery syntax we must not pass through
+const cleanWord = (word: string) => word.replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * Splits a query like `"job interview" nerv* -work` into terms:
+ * quoted text is a phrase, a trailing `*` makes a prefix match and a leading `-` excludes.
+ */
+export function parseSearchQuery(q: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const pattern = /(-?)"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(q)) !== null) {
+    if (match[2] !== undefined) {
+      const phrase = match[2].trim();
+      if (phrase) terms.push({ kind: 'phrase', value: phrase, negated: match[1] === '-' });
+      continue;
+    }
+    let token = match[3];
+    const negated = token.startsWith('-') && token.length > 1;
+    if (negated) token = token.slice(1);
+    const isPrefix = token.endsWith('*');
+    const value = cleanWord(token);
+    if (!value) continue;
+    terms.push({ kind: isPrefix ? 'prefix' : 'word', value, negated });
+  }
+  return terms;
+}
+
+const termQuery = (term: SearchTerm): Prisma.Sql => {
+  const query =
+    term.kind === 'phrase' ? Prisma.sql`phraseto_tsquery(${SEARCH_CONFIG}::regconfig, ${term.value})`
+    : term.kind === 'prefix' ? Prisma.sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${`${term.value}:*`})`
+    : Prisma.sql`plainto_tsquery(${SEARCH_CONFIG}::regconfig, ${term.value})`;
+  return term.negated ? Prisma.sql`(!! ${query})` : query;
+};
+
+export function buildTsQuery(terms: SearchTerm[]): Prisma.Sql {
+  return Prisma.join(terms.map(termQuery), ' && ');
+}
+
+/**
+ * Ranked full-text search over a user's entries. Snippets are plain text with matches wrapped
+ * in <mark></mark>; the content itself is not escaped, so clients must render them as text.
+ */
+export async function searchEntries(
+  prisma: PrismaClient,
+  userId: string,
+  options: EntrySearchOptions
+): Promise<EntrySearchResult[]> {
+  const terms = parseSearchQuery(options.q);
+  // Only exclusions would match nearly everything; treat that as no match rather than a full scan
+  if (!terms.some((term) => !term.negated)) return [];
+
+  const filters: Prisma.Sql[] = [
+    Prisma.sql`e."userId" = ${userId}`,
+    Prisma.sql`e."deletedAt" IS NULL`,
+    Prisma.sql`e."searchVector" @@ s.query`,
+  ];
+  if (options.journalId) filters.push(Prisma.sql`e."journalId" = ${options.journalId}`);
+  if (options.from) filters.push(Prisma.sql`e."entryDate" >= CAST(${options.from} AS date)`);
+  if (options.to) filters.push(Prisma.sql`e."entryDate" <= CAST(${options.to} AS date)`);
+  if (options.moods?.length) filters.push(Prisma.sql`e."moodEmoji" IN (${Prisma.join(options.moods)})`);
+  for (const name of options.tags ?? []) {
+    filters.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "_EntryToTag" et JOIN "Tag" t ON t."id" = et."B" WHERE et."A" = e."id" AND t."name" = ${name}
+    )`);
+  }
+
+  const results = await prisma.$queryRaw<Omit<EntrySearchResult, 'attachments'>[]>`
+    SELECT
+      e."id", e."userId", e."journalId", e."content", e."moodTags", e."moodEmoji", e."entryDate", e."timeZone",
+      e."version", e."createdAt", e."updatedAt", e."deletedAt",
+      COALESCE((
+        SELECT json_agg(json_build_object('id', t."id", 'name', t."name") ORDER BY t."name")
+        FROM "_EntryToTag" et JOIN "Tag" t ON t."id" = et."B" WHERE et."A" = e."id"
+      ), '[]'::json) AS "tags",
+      ts_rank_cd(e."searchVector", s.query)::float8 AS "rank",
+      ts_headline(${SEARCH_CONFIG}::regconfig, e."content", s.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "') AS "snippet"
+    FROM "Entry" e, (SELECT ${buildTsQuery(terms)} AS query) s
+    WHERE ${Prisma.join(filters, ' AND ')}
+    ORDER BY "rank" DESC, e."createdAt" DESC
+    LIMIT ${options.take} OFFSET ${options.offset}
+  `;
+
+  // Loaded separately so their dates come back as Dates, and results carry the same photos as GET /entries
+  const attachments = await prisma.attachment.findMany({
+    where: { entryId: { in: results.map((result) => result.id) } },
+    select: { ...entryAttachmentsInclude.attachments.select, entryId: true },
+    orderBy: entryAttachmentsInclude.attachments.orderBy,
+  });
+  return results.map((result) => ({
+    ...result,
+    attachments: attachments
+      .filter((attachment) => attachment.entryId === result.id)
+      .map(({ entryId, ...attachment }) => attachment),
+  }));
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { hashToken, RefreshTokenError, rotateSession } from './sessions';
+
+interface FakeSession {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  ipAddress: string | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+// Just enough of the session table for rotation; each call is atomic like a single SQL statement
+function fakePrisma(session: FakeSession) {
+  const matches = (where: Partial<FakeSession>) =>
+    Object.entries(where).every(([key, value]) => session[key as keyof FakeSession] === value);
+  return {
+    session: {
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        where.id === session.id ? { ...session, user: { email: 'me@example.com' } } : null,
+      updateMany: async ({ where, data }: { where: Partial<FakeSession>; data: Partial<FakeSession> }) => {
+        if (!matches(where)) return { count: 0 };
+        Object.assign(session, data);
+        return { count: 1 };
+      },
+    },
+  } as unknown as PrismaClient;
+}
+
+const newSession = (secret: string): FakeSession => ({
+  id: 'session-1',
+  userId: 'user-1',
+  refreshTokenHash: hashToken(secret),
+  ipAddress: null,
+  expiresAt: new Date(Date.now() + 60_000),
+  revokedAt: null,
+  revokedReason: null,
+});
+
+describe('rotateSession', () => {
+  it('swaps the secret and returns a token pair for the same session', async () => {
+    const session = newSession('first');
+    const tokens = await rotateSession(fakePrisma(session), 'session-1.first', { ipAddress: '10.0.0.1' });
+    const [sessionId, secret] = tokens.refreshToken.split('.');
+    expect(sessionId).toBe('session-1');
+    expect(session.refreshTokenHash).toBe(hashToken(secret));
+    expect(session.ipAddress).toBe('10.0.0.1');
+    expect(tokens.token).toBeTruthy();
+  });
+
+  it('revokes the session when a rotated token is presented again', async () => {
+    const session = newSession('first');
+    const prisma = fakePrisma(session);
+    await rotateSession(prisma, 'session-1.first', {});
+    await expect(rotateSession(prisma, 'session-1.first', {})).rejects.toThrow('Refresh token reuse detected');
+    expect(session.revokedReason).toBe('refresh_token_reuse');
+  });
+
+  it('lets only one of two concurrent refreshes with the same token through', async () => {
+    const session = newSession('first');
+    const prisma = fakePrisma(session);
+    const results = await Promise.allSettled([
+      rotateSession(prisma, 'session-1.first', {}),
+      rotateSession(prisma, 'session-1.first', {}),
+    ]);
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(session.revokedAt).not.toBeNull();
+  });
+
+  it('rejects malformed, unknown, revoked and expired sessions', async () => {
+    const session = newSession('first');
+    const prisma = fakePrisma(session);
+    await expect(rotateSession(prisma, 'no-dot', {})).rejects.toBeInstanceOf(RefreshTokenError);
+    await expect(rotateSession(prisma, 'other.first', {})).rejects.toThrow('Session expired');
+
+    session.expiresAt = new Date(Date.now() - 1);
+    await expect(rotateSession(prisma, 'session-1.first', {})).rejects.toThrow('Session expired');
+
+    session.expiresAt = new Date(Date.now() + 60_000);
+    session.revokedAt = new Date();
+    await expect(rotateSession(prisma, 'session-1.first', {})).rejects.toThrow('Session expired');
+  });
+});
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from './jwt';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface SessionContext {
+  deviceLabel?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+
+// Best-effort "Chrome on macOS" style label for the sessions list
+export function describeUserAgent(userAgent?: string): string | undefined {
+  if (!userAgent) return undefined;
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : undefined;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : undefined;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+export async function createSession(
+  prisma: PrismaClient,
+  user: { id: string; email: string },
+  context: SessionContext
+): Promise<SessionTokens> {
+  const secret = newSecret();
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(secret),
+      deviceLabel: context.deviceLabel || describeUserAgent(context.userAgent),
+      ipAddress: context.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+  return {
+    token: generateToken(user.id, user.email, session.id),
+    refreshToken: `${session.id}.${secret}`,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new access/refresh pair. A token whose secret no longer
+ * matches the session has already been rotated, so it is treated as stolen and the whole
+ * session is revoked. The secret is swapped by a single conditional update, so of two
+ * requests presenting the same token only one can win.
+ */
+export async function rotateSession(
+  prisma: PrismaClient,
+  refreshToken: string,
+  context: SessionContext
+): Promise<SessionTokens> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret) throw new RefreshTokenError('Invalid refresh token');
+
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, include: { user: true } });
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    throw new RefreshTokenError('Session expired');
+  }
+
+  const nextSecret = newSecret();
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hashToken(secret), revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextSecret),
+      lastUsedAt: new Date(),
+      ipAddress: context.ipAddress ?? session.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+  if (count === 0) {
+    await revokeSession(prisma, session.id, 'refresh_token_reuse');
+    throw new RefreshTokenError('Refresh token reuse detected');
+  }
+
+  return {
+    token: generateToken(session.userId, session.user.email, session.id),
+    refreshToken: `${session.id}.${nextSecret}`,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+export async function revokeSession(prisma: PrismaClient, sessionId: string, reason: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+export async function isSessionActive(prisma: PrismaClient, sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+export async function revokeAllSessions(prisma: PrismaClient, userId: string, reason: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
@@ -0,0 +1,114 @@
+import fsp from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Readable } from 'stream';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LocalDiskStorage, S3Storage, type StorageDriver } from './storage';
+
+async function readAll(stream: Readable | null): Promise<Buffer | null> {
+  if (!stream) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+// The same round trip for every driver: what was put comes back, and is gone once deleted
+function roundTrip(driver: () => StorageDriver) {
+  it('stores, reads and deletes files', async () => {
+    const storage = driver();
+    await storage.put('user-1/photo', Buffer.from('original'), 'image/jpeg');
+    await storage.put('user-1/photo-thumbnail.webp', Buffer.from('thumbnail'), 'image/webp');
+    expect((await readAll(await storage.get('user-1/photo')))?.toString()).toBe('original');
+
+    await storage.delete(['user-1/photo', 'user-1/photo-thumbnail.webp']);
+    expect(await storage.get('user-1/photo')).toBeNull();
+    expect(await storage.get('user-1/photo-thumbnail.webp')).toBeNull();
+  });
+
+  it('reads a missing file as null and deletes it without complaint', async () => {
+    const storage = driver();
+    expect(await storage.get('user-1/never-uploaded')).toBeNull();
+    await expect(storage.delete(['user-1/never-uploaded'])).resolves.toBeUndefined();
+  });
+}
+
+describe('LocalDiskStorage', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fsp.mkdtemp(path.join(os.tmpdir(), 'ink-storage-'));
+  });
+
+  afterAll(async () => {
+    await fsp.rm(directory, { recursive: true, force: true });
+  });
+
+  roundTrip(() => new LocalDiskStorage(path.join(directory, 'uploads')));
+
+  it('keeps keys inside the storage directory', async () => {
+    const storage = new LocalDiskStorage(path.join(directory, 'uploads'));
+    await expect(storage.put('../outside', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(storage.get('user-1/../../outside')).rejects.toThrow('Invalid storage key');
+    await expect(storage.delete([path.join(directory, 'outside')])).rejects.toThrow('Invalid storage key');
+    await expect(fsp.access(path.join(directory, 'outside'))).rejects.toThrow();
+  });
+});
+
+// A local stand-in for S3: path-style PutObject, GetObject and DeleteObjects over HTTP
+function startFakeS3() {
+  const objects = new Map<string, Buffer>();
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = Buffer.concat(chunks);
+    const url = new URL(req.url!, 'http://localhost');
+    const key = decodeURIComponent(url.pathname.replace(/^\/[^/]+\/?/, ''));
+
+    if (req.method === 'PUT') {
+      objects.set(key, body);
+      res.end();
+    } else if (req.method === 'GET' && objects.has(key)) {
+      res.setHeader('Content-Length', objects.get(key)!.length);
+      res.end(objects.get(key));
+    } else if (req.method === 'GET') {
+      res.writeHead(404, { 'Content-Type': 'application/xml' });
+      res.end('<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+    } else if (req.method === 'POST' && url.searchParams.has('delete')) {
+      for (const [, deleted] of body.toString().matchAll(/<Key>([^<]*)<\/Key>/g)) objects.delete(deleted);
+      res.setHeader('Content-Type', 'application/xml');
+      res.end('<?xml version="1.0" encoding="UTF-8"?><DeleteResult></DeleteResult>');
+    } else {
+      res.writeHead(400).end();
+    }
+  });
+  return { server, objects };
+}
+
+describe('S3Storage', () => {
+  const { server, objects } = startFakeS3();
+  let endpoint: string;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const driver = () =>
+    new S3Storage('ink', { endpoint, forcePathStyle: true, accessKeyId: 'test', secretAccessKey: 'test' });
+
+  roundTrip(driver);
+
+  it('deletes in batches of at most 1000 keys', async () => {
+    const storage = driver();
+    const keys = Array.from({ length: 1001 }, (_, i) => `user-2/${i}`);
+    for (const key of keys.slice(-2)) await storage.put(key, Buffer.from(key), 'text/plain');
+    await storage.delete(keys);
+    expect(objects.size).toBe(0);
+  });
+});
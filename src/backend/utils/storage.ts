@@ -0,0 +1,116 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import { DeleteObjectsCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+// Where uploaded files live. Keys are generated by the server ("<userId>/<attachmentId>...").
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Resolves to null when there is no file under the key */
+  get(key: string): Promise<Readable | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+export class LocalDiskStorage implements StorageDriver {
+  private root: string;
+
+  constructor(directory: string) {
+    this.root = path.resolve(directory);
+  }
+
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.filePath(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const filePath = this.filePath(key);
+    try {
+      await fsp.access(filePath);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => fsp.rm(this.filePath(key), { force: true })));
+  }
+}
+
+// Works with AWS and with S3-compatible servers (MinIO, R2, a local stand-in) through `endpoint` and path-style URLs
+export class S3Storage implements StorageDriver {
+  private client: S3Client;
+
+  constructor(
+    private bucket: string,
+    options: { region?: string; endpoint?: string; accessKeyId?: string; secretAccessKey?: string; forcePathStyle?: boolean }
+  ) {
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return (object.Body as Readable | undefined) ?? null;
+    } catch (err) {
+      if (err instanceof NoSuchKey) return null;
+      throw err;
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    // DeleteObjects takes at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      const batch = keys.slice(i, i + 1000);
+      await this.client.send(
+        new DeleteObjectsCommand({ Bucket: this.bucket, Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true } })
+      );
+    }
+  }
+}
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Picks a driver from STORAGE_DRIVER (`local` or `s3`). Defaults to S3 when S3_BUCKET is set and
+ * to the local disk otherwise, so development needs no setup.
+ */
+export function getStorage(): StorageDriver {
+  if (storage) return storage;
+  const driver = process.env.STORAGE_DRIVER || (process.env.S3_BUCKET ? 's3' : 'local');
+
+  if (driver === 's3') {
+    if (!process.env.S3_BUCKET) throw new Error('S3_BUCKET is required for the s3 storage driver');
+    storage = new S3Storage(process.env.S3_BUCKET, {
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  } else {
+    storage = new LocalDiskStorage(process.env.STORAGE_DIR || path.join(process.cwd(), '.uploads'));
+  }
+  return storage;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry, Prisma } from '@prisma/client';
+import { rewriteHashtag } from './tags';
+
+describe('rewriteHashtag', () => {
+  const entry = (id: string, content: string) =>
+    ({ id, content, moodEmoji: null, version: 1, updatedAt: new Date('2026-10-01T09:00:00.000Z') }) as Entry;
+
+  function fakeTx(entries: Entry[]) {
+    const calls: { revisions: any[]; updates: any[] } = { revisions: [], updates: [] };
+    const tx = {
+      entry: {
+        findMany: async () => entries,
+        update: async (args: unknown) => calls.updates.push(args),
+      },
+      entryRevision: {
+        aggregate: async () => ({ _max: { revision: 2 } }),
+        create: async ({ data }: { data: unknown }) => calls.revisions.push(data),
+      },
+    } as unknown as Prisma.TransactionClient;
+    return { tx, calls };
+  }
+
+  it('keeps the previous version of each entry it rewrites', async () => {
+    const { tx, calls } = fakeTx([entry('a', 'Out with #work today'), entry('b', 'Nothing tagged here')]);
+    await rewriteHashtag(tx, 'tag-1', 'work', 'office');
+    expect(calls.revisions).toEqual([
+      { entryId: 'a', revision: 3, content: 'Out with #work today', moodEmoji: null, savedAt: entry('a', '').updatedAt },
+    ]);
+    expect(calls.updates).toEqual([
+      { where: { id: 'a' }, data: { content: 'Out with #office today', version: { increment: 1 } } },
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { replaceHashtag } from '../../shared/tags';
+import { snapshotRevision } from './revisions';
+
+// Shape of tags embedded in entry responses
+export const entryTagsInclude = { tags: { select: { id: true, name: true }, orderBy: { name: 'asc' } } } as const;
+
+/**
+ * Returns the ids of the user's tags with these (already normalized) names, creating any that don't exist yet.
+ * Tags are created implicitly by writing a #hashtag, so there is no separate create route.
+ */
+export async function resolveTagIds(prisma: PrismaClient, userId: string, names: string[]): Promise<{ id: string }[]> {
+  const unique = Array.from(new Set(names));
+  if (unique.length === 0) return [];
+  await prisma.tag.createMany({ data: unique.map((name) => ({ userId, name })), skipDuplicates: true });
+  return prisma.tag.findMany({ where: { userId, name: { in: unique } }, select: { id: true } });
+}
+
+// Tags disappear once no entry uses them, the same way they appear when one first does
+export async function pruneUnusedTags(prisma: PrismaClient, userId: string): Promise<void> {
+  await prisma.tag.deleteMany({ where: { userId, entries: { none: {} } } });
+}
+
+/**
+ * Rewrites `#from` in the content of a tag's entries, so renames, merges and deletes stay in step with the
+ * hashtags the user actually wrote. Pass `to: null` to turn the hashtag into a plain word. Like any other edit,
+ * each entry's previous version is kept as a revision; call it inside the transaction that changes the tag.
+ */
+export async function rewriteHashtag(tx: Prisma.TransactionClient, tagId: string, from: string, to: string | null) {
+  const entries = await tx.entry.findMany({ where: { tags: { some: { id: tagId } } } });
+  for (const entry of entries) {
+    const content = replaceHashtag(entry.content, from, to);
+    if (content === entry.content) continue;
+    await snapshotRevision(tx, entry);
+    await tx.entry.update({ where: { id: entry.id }, data: { content, version: { increment: 1 } } });
+  }
+}
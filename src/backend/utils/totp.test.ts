@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { PrismaClient, User } from '@prisma/client';
+import {
+  base32Decode,
+  base32Encode,
+  currentTotpStep,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  verifySecondFactor,
+  verifyTotp,
+} from './totp';
+
+// The RFC 6238 test secret, "12345678901234567890"
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('round-trips base32', () => {
+    expect(SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+    expect(() => base32Decode('not base32!')).toThrow();
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateTotp(SECRET, currentTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(SECRET, currentTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(SECRET, currentTotpStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('accepts a step either side and nothing at or before the last one used', () => {
+    const now = currentTotpStep();
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now - 1))).toBe(now - 1);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now + 1))).toBe(now + 1);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now - 2))).toBeNull();
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now), now)).toBeNull();
+    expect(verifyTotp(SECRET, '12345')).toBeNull();
+  });
+});
+
+describe('recovery codes', () => {
+  it('hashes codes however they are typed', () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}$/);
+    expect(hashRecoveryCode(` ${codes[0].toUpperCase().replace('-', '')} `)).toBe(hashes[0]);
+  });
+});
+
+describe('verifySecondFactor', () => {
+  const { codes, hashes } = generateRecoveryCodes();
+
+  // A user row whose updates are atomic, the way the database applies a single statement
+  function fakePrisma(user: User) {
+    return {
+      user: {
+        updateMany: async ({ data }: { data: { totpLastUsedStep: number } }) => {
+          if (user.totpLastUsedStep !== null && user.totpLastUsedStep >= data.totpLastUsedStep) return { count: 0 };
+          user.totpLastUsedStep = data.totpLastUsedStep;
+          return { count: 1 };
+        },
+      },
+      // UPDATE … array_remove(codes, hash) WHERE id = … AND hash = ANY(codes)
+      $executeRaw: async (_sql: TemplateStringsArray, hash: string) => {
+        if (!user.totpRecoveryCodeHashes.includes(hash)) return 0;
+        user.totpRecoveryCodeHashes = user.totpRecoveryCodeHashes.filter((h) => h !== hash);
+        return 1;
+      },
+    } as unknown as PrismaClient;
+  }
+
+  const newUser = () =>
+    ({ id: 'user-1', totpSecret: SECRET, totpLastUsedStep: null, totpRecoveryCodeHashes: [...hashes] }) as unknown as User;
+
+  it('accepts an authenticator code once', async () => {
+    const user = newUser();
+    const prisma = fakePrisma(user);
+    const code = generateTotp(SECRET, currentTotpStep());
+    const results = await Promise.all([
+      verifySecondFactor(prisma, { ...user }, code),
+      verifySecondFactor(prisma, { ...user }, code),
+    ]);
+    expect(results.sort()).toEqual([false, true]);
+  });
+
+  it('spends a recovery code once, even when two logins race with it', async () => {
+    const user = newUser();
+    const prisma = fakePrisma(user);
+    const results = await Promise.all([
+      verifySecondFactor(prisma, { ...user }, codes[3]),
+      verifySecondFactor(prisma, { ...user }, codes[3]),
+    ]);
+    expect(results.sort()).toEqual([false, true]);
+    expect(user.totpRecoveryCodeHashes).toHaveLength(9);
+    expect(await verifySecondFactor(prisma, user, codes[3])).toBe(false);
+  });
+
+  it('refuses unknown codes and accounts without two-factor', async () => {
+    const user = newUser();
+    expect(await verifySecondFactor(fakePrisma(user), user, 'ffff-ffff')).toBe(false);
+    expect(await verifySecondFactor(fakePrisma(user), { ...user, totpSecret: null }, codes[0])).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { PrismaClient, type User } from '@prisma/client';
+import { hashToken } from './sessions';
+
+// RFC 6238 defaults, which is what every authenticator app expects
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const ISSUER = 'Ink';
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const currentTotpStep = (now = Date.now()) => Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Checks a code against the current step and one step either side to allow for clock drift.
+ * Returns the matching step so callers can refuse to accept the same code twice.
+ */
+export function verifyTotp(secret: string, code: string, afterStep?: number | null): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+  const now = currentTotpStep();
+  for (const step of [now - 1, now, now + 1]) {
+    if (afterStep != null && step <= afterStep) continue;
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes look like "4f9a-21c7"; only their hashes are stored
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(4).toString('hex');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase().replace(/[^0-9a-f]/g, '');
+
+export const hashRecoveryCode = (code: string) => hashToken(normalizeRecoveryCode(code));
+
+/**
+ * Accepts either a current authenticator code or an unused recovery code. TOTP codes can't be
+ * replayed within their window and recovery codes are removed once spent. Both are claimed by a
+ * conditional update, so two logins racing with the same code can't both get through.
+ */
+export async function verifySecondFactor(prisma: PrismaClient, user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+  if (step !== null) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step },
+    });
+    return count === 1;
+  }
+
+  const recoveryHash = hashRecoveryCode(code);
+  if (!user.totpRecoveryCodeHashes.includes(recoveryHash)) return false;
+  const removed = await prisma.$executeRaw`
+    UPDATE "User" SET "totpRecoveryCodeHashes" = array_remove("totpRecoveryCodeHashes", ${recoveryHash})
+    WHERE "id" = ${user.id} AND ${recoveryHash} = ANY("totpRecoveryCodeHashes")
+  `;
+  return removed === 1;
+}
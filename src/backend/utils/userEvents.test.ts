@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { publishUserEvent, subscribeUserEvents } from './userEvents';
+
+// Without REDIS_URL events go through the in-memory pub/sub, delivered as they are published
+describe('user events', () => {
+  it("reaches the user's own streams and no one else's", async () => {
+    const alice: string[] = [];
+    const bob: string[] = [];
+    const stopAlice = await subscribeUserEvents('alice', (type) => alice.push(type));
+    const stopBob = await subscribeUserEvents('bob', (type) => bob.push(type));
+
+    publishUserEvent('alice', { type: 'journals.changed' });
+    publishUserEvent('alice', { type: 'entry.deleted', id: 'entry-1', deletedAt: '2026-10-01T09:00:00.000Z' });
+    expect(alice).toEqual(['journals.changed', 'entry.deleted']);
+    expect(bob).toEqual([]);
+
+    await Promise.all([stopAlice(), stopBob()]);
+  });
+
+  it('passes the event on serialized, ready to write to the stream', async () => {
+    const received: string[] = [];
+    const stop = await subscribeUserEvents('carol', (_type, data) => received.push(data));
+    publishUserEvent('carol', { type: 'entry.updated', entry: { id: 'entry-1', version: 2 } });
+    expect(JSON.parse(received[0])).toEqual({ type: 'entry.updated', entry: { id: 'entry-1', version: 2 } });
+
+    await stop();
+    publishUserEvent('carol', { type: 'entries.changed' });
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { getPubSub } from './pubsub';
+
+// What GET /events streams to a user's devices. Entries are sent as the API returns them.
+export type UserEvent =
+  | { type: 'entry.created' | 'entry.updated'; entry: unknown }
+  | { type: 'entry.deleted'; id: string; deletedAt: Date | string }
+  // Many entries changed at once (tag rename, mood removal); clients fetch the delta instead
+  | { type: 'entries.changed' }
+  // A journal was created, edited or deleted; clients fetch /journals again
+  | { type: 'journals.changed' }
+  | { type: 'insight.ready'; insight: unknown };
+
+const userChannel = (userId: string) => `user-events:${userId}`;
+
+// Fire and forget: a failed publish only delays other devices until their next sync
+export function publishUserEvent(userId: string, event: UserEvent): void {
+  getPubSub()
+    .publish(userChannel(userId), JSON.stringify(event))
+    .catch((err) => console.error('Failed to publish user event:', err));
+}
+
+/** Resolves to a function that unsubscribes. Listeners get events already serialized for the wire. */
+export function subscribeUserEvents(userId: string, listener: (type: UserEvent['type'], data: string) => void) {
+  return getPubSub().subscribe(userChannel(userId), (message) => {
+    try {
+      const { type } = JSON.parse(message) as UserEvent;
+      listener(type, message);
+    } catch {
+      // Not something we published
+    }
+  });
+}
@@ -1,4 +1,44 @@
 import { z } from 'zod';
+import { isValidDateKey, isValidTimeZone } from '../../shared/dates';
+import { JOURNAL_ICONS, MAX_JOURNAL_NAME_LENGTH } from '../../shared/journals';
+import { MAX_ENTRY_LENGTH } from '../../shared/markdown';
+import { MAX_MOOD_SCORE, MIN_MOOD_SCORE } from '../../shared/moods';
+import { MAX_TAG_LENGTH, isValidTagName, normalizeTagName } from '../../shared/tags';
+
+// A built-in mood id (legacy names/emoji allowed) or a custom mood id; resolved per user
+// by resolveMoodValues in utils/moods.ts
+export const moodValueSchema = z.string().trim().min(1, 'Mood cannot be empty');
+
+// Entry ids may be generated by clients (UUIDs) so offline edits can reference them before they reach us
+// Entry text is Markdown that the API parses for word counts, so its length is capped well below the body limit
+export const entryContentSchema = z.string().max(MAX_ENTRY_LENGTH, `Entries can be at most ${MAX_ENTRY_LENGTH} characters`);
+
+export const entryIdSchema = z.string().regex(/^[A-Za-z0-9_-]{8,64}$/, 'Invalid entry id');
+
+// Accepts "Work" or "#work" and yields the normalized name
+export const tagNameSchema = z
+  .string()
+  .transform(normalizeTagName)
+  .refine(isValidTagName, `Tags start with a letter and use letters, numbers, "-" or "_" (up to ${MAX_TAG_LENGTH})`);
+
+// An IANA zone name such as "America/New_York"
+export const timeZoneSchema = z.string().max(64).refine(isValidTimeZone, 'Unknown time zone');
+
+// A calendar day, YYYY-MM-DD
+export const dateKeySchema = z.string().refine(isValidDateKey, 'Dates must be YYYY-MM-DD');
+
+export const customMoodSchema = z.object({
+  label: z.string().trim().min(1).max(30),
+  emoji: z.string().trim().min(1).max(16),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a #RRGGBB hex value'),
+  score: z.number().int().min(MIN_MOOD_SCORE).max(MAX_MOOD_SCORE),
+});
+
+export const journalSchema = z.object({
+  name: z.string().trim().min(1, 'Name cannot be empty').max(MAX_JOURNAL_NAME_LENGTH),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a #RRGGBB hex value'),
+  icon: z.enum(JOURNAL_ICONS),
+});
 
 export const registerSchema = z.object({
   email: z.string().email('Invalid email'),
@@ -12,9 +52,9 @@ export const loginSchema = z.object({
 });
 
 export const entrySchema = z.object({
-  content: z.string().min(1, 'Content cannot be empty'),
-  moodTags: z.array(z.string()).optional().default([]),
-  moodEmoji: z.string().optional()
+  content: entryContentSchema.min(1, 'Content cannot be empty'),
+  moodTags: z.array(moodValueSchema).optional().default([]),
+  moodEmoji: moodValueSchema.optional()
 });
 
 export const entryUpdateSchema = entrySchema.partial();
@@ -23,3 +63,5 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type EntryInput = z.infer<typeof entrySchema>;
 export type EntryUpdateInput = z.infer<typeof entryUpdateSchema>;
+export type CustomMoodInput = z.infer<typeof customMoodSchema>;
+export type JournalInput = z.infer<typeof journalSchema>;
@@ -0,0 +1,140 @@
+import { resolveMood, type CustomMood } from '../../shared/moods';
+import { addDaysToKey, dateKeyInZone, dayOfWeek, hourInZone, utcDateKey } from '../../shared/dates';
+import { countWords } from '../../shared/markdown';
+
+// Deterministic weekly stats: no AI involved, safe to compute on every request. Days are calendar days
+// (YYYY-MM-DD): entries count on their entryDate, and times of day are read in the zone they were written in.
+
+export type TimeBucket = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface StatsEntry {
+  content: string;
+  moodEmoji?: string | null;
+  moodTags?: string[];
+  entryDate: Date;
+  timeZone: string;
+  createdAt: Date;
+}
+
+export interface DayStats {
+  date: string;
+  entryCount: number;
+  wordCount: number;
+  moodScore: number | null;
+  moods: string[];
+}
+
+export interface PeriodTotals {
+  entryCount: number;
+  wordCount: number;
+  averageScore: number | null;
+}
+
+export interface WeeklyStats extends PeriodTotals {
+  periodStart: string;
+  periodEnd: string;
+  days: DayStats[];
+  timeBuckets: Record<TimeBucket, number>;
+  moodDistribution: Record<string, number>;
+  previousWeek: PeriodTotals;
+  deltas: {
+    entryCount: number;
+    wordCount: number;
+    averageScore: number | null;
+  };
+}
+
+// Morning 5-11, Afternoon 12-16, Evening 17-21, Night 22-4
+export function getTimeBucket(hour: number): TimeBucket {
+  if (hour >= 5 && hour <= 11) return 'morning';
+  if (hour >= 12 && hour <= 16) return 'afternoon';
+  if (hour >= 17 && hour <= 21) return 'evening';
+  return 'night';
+}
+
+export function getEntryMood(entry: StatsEntry, customMoods: CustomMood[] = []): string | undefined {
+  return resolveMood(entry.moodEmoji || entry.moodTags?.[0], customMoods)?.id;
+}
+
+// Defaults to the start (Sunday) of the current week in the user's time zone.
+export function parseWeekStart(start: string | undefined, timeZone: string): string {
+  if (start) return start;
+  const today = dateKeyInZone(new Date(), timeZone);
+  return addDaysToKey(today, -dayOfWeek(today));
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const average = (scores: number[]) =>
+  scores.length > 0 ? round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null;
+
+function summarize(entries: StatsEntry[], customMoods: CustomMood[]): PeriodTotals {
+  const scores = entries
+    .map((e) => resolveMood(getEntryMood(e, customMoods), customMoods)?.score)
+    .filter((s): s is number => s !== undefined);
+  return {
+    entryCount: entries.length,
+    wordCount: entries.reduce((sum, e) => sum + countWords(e.content), 0),
+    averageScore: average(scores),
+  };
+}
+
+/**
+ * Builds stats for the 7 days starting at weekStart. Entries may span the previous
+ * week as well; those are only used for the week-over-week deltas. Custom moods
+ * are scored with their own valence.
+ */
+export function computeWeeklyStats(entries: StatsEntry[], weekStart: string, customMoods: CustomMood[] = []): WeeklyStats {
+  const weekEnd = addDaysToKey(weekStart, 7);
+  const prevStart = addDaysToKey(weekStart, -7);
+
+  // Date keys sort the same way as the days they name
+  const withDays = entries.map((e) => ({ ...e, day: utcDateKey(e.entryDate) }));
+  const current = withDays.filter((e) => e.day >= weekStart && e.day < weekEnd);
+  const previous = withDays.filter((e) => e.day >= prevStart && e.day < weekStart);
+
+  const days: DayStats[] = Array.from({ length: 7 }, (_, i) => {
+    const key = addDaysToKey(weekStart, i);
+    const dayEntries = current.filter((e) => e.day === key);
+    const moods = dayEntries.map((e) => getEntryMood(e, customMoods)).filter((m): m is string => !!m);
+    const scores = moods
+      .map((m) => resolveMood(m, customMoods)?.score)
+      .filter((s): s is number => s !== undefined);
+    return {
+      date: key,
+      entryCount: dayEntries.length,
+      wordCount: dayEntries.reduce((sum, e) => sum + countWords(e.content), 0),
+      moodScore: average(scores),
+      moods,
+    };
+  });
+
+  const timeBuckets: Record<TimeBucket, number> = { morning: 0, afternoon: 0, evening: 0, night: 0 };
+  const moodDistribution: Record<string, number> = {};
+  current.forEach((e) => {
+    timeBuckets[getTimeBucket(hourInZone(e.createdAt, e.timeZone))]++;
+    const mood = getEntryMood(e, customMoods);
+    if (mood) moodDistribution[mood] = (moodDistribution[mood] || 0) + 1;
+  });
+
+  const totals = summarize(current, customMoods);
+  const previousWeek = summarize(previous, customMoods);
+
+  return {
+    periodStart: weekStart,
+    periodEnd: addDaysToKey(weekEnd, -1),
+    ...totals,
+    days,
+    timeBuckets,
+    moodDistribution,
+    previousWeek,
+    deltas: {
+      entryCount: totals.entryCount - previousWeek.entryCount,
+      wordCount: totals.wordCount - previousWeek.wordCount,
+      averageScore:
+        totals.averageScore !== null && previousWeek.averageScore !== null
+          ? round(totals.averageScore - previousWeek.averageScore)
+          : null,
+    },
+  };
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../context/AuthContext';
+import { ApiError } from '../lib/api';
+import { CodeInput } from './CodeInput';
+
+type AuthMode = 'signin' | 'signup' | 'forgot' | 'reset' | 'two-factor';
+
+const subtitles: Record<AuthMode, string> = {
+  signin: 'Welcome back.',
+  signup: 'Create an account to keep your journal safe.',
+  forgot: 'Enter your email and we’ll send you a reset link.',
+  reset: 'Choose a new password.',
+  'two-factor': 'Enter the 6-digit code from your authenticator app.',
+};
+
+export function Auth() {
+  const {
+    login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    register,
+    continueAsGuest,
+    resetToken,
+    requestPasswordReset,
+    resetPassword,
+    cancelPasswordReset,
+    restoreAccount,
+  } = useAuth();
+  const [mode, setMode] = useState<AuthMode>(resetToken ? 'reset' : 'signin');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Set when sign-in hits an account that is waiting out its deletion grace period
+  const [pendingDeletionUntil, setPendingDeletionUntil] = useState<Date | null>(null);
+
+  const isSignUp = mode === 'signup';
+  const isTwoFactor = mode === 'two-factor';
+  const needsEmail = mode !== 'reset' && !isTwoFactor;
+  const needsPassword = mode !== 'forgot' && !isTwoFactor;
+  const minPasswordLength = isSignUp || mode === 'reset' ? 6 : 1;
+  const canSubmit = isTwoFactor
+    ? code.trim().length >= (useRecoveryCode ? 8 : 6)
+    : (!needsEmail || email.trim()) && (!needsPassword || password.length >= minPasswordLength);
+
+  const submitCode = async (value: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await verifyTwoFactor(value.trim());
+    } catch (err) {
+      setCode('');
+      setError(err instanceof Error ? err.message : 'Something went wrong. Try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    if (isTwoFactor) return submitCode(code);
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (mode === 'signup') {
+        await register(email.trim(), password, name.trim() || undefined);
+      } else if (mode === 'forgot') {
+        await requestPasswordReset(email.trim());
+        setNotice('If an account exists for that email, a reset link is on its way.');
+      } else if (mode === 'reset') {
+        await resetPassword(password);
+        setPassword('');
+        setMode('signin');
+        setNotice('Password updated. Sign in with your new password.');
+      } else {
+        const { mfaRequired } = await login(email.trim(), password);
+        if (mfaRequired) enterTwoFactor();
+      }
+    } catch (err) {
+      if (err instanceof ApiError && err.data?.code === 'account_pending_deletion') {
+        setPendingDeletionUntil(new Date(err.data.deletionScheduledFor));
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong. Try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const enterTwoFactor = () => {
+    setCode('');
+    setUseRecoveryCode(false);
+    setMode('two-factor');
+  };
+
+  const handleRestore = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { mfaRequired } = await restoreAccount(email.trim(), password);
+      setPendingDeletionUntil(null);
+      if (mfaRequired) enterTwoFactor();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: AuthMode) => {
+    if (mode === 'reset') cancelPasswordReset();
+    if (mode === 'two-factor') cancelTwoFactor();
+    setPendingDeletionUntil(null);
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  };
+
+  const submitLabel =
+    mode === 'signup' ? 'Create Account'
+    : mode === 'forgot' ? 'Send Reset Link'
+    : mode === 'reset' ? 'Update Password'
+    : isTwoFactor ? 'Verify'
+    : 'Sign In';
+
+  const inputClassName =
+    'w-full h-12 px-4 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg text-[17px] text-[#171717] placeholder:text-[#A3A3A3] outline-none focus:border-[#171717] transition-colors';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="min-h-screen max-w-md mx-auto px-5 pt-24 pb-8 flex flex-col"
+    >
+      <div className="text-center mb-12">
+        <h1 className="text-[34px] font-bold text-[#171717] mb-2">Ink</h1>
+        <p className="text-[15px] text-[#525252]">
+          {isTwoFactor && useRecoveryCode ? 'Enter one of your recovery codes.' : subtitles[mode]}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        {isSignUp && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            autoComplete="name"
+            className={inputClassName}
+          />
+        )}
+        {needsEmail && (
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className={inputClassName}
+          />
+        )}
+        {needsPassword && (
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={minPasswordLength > 1 ? 'Password (6+ characters)' : 'Password'}
+            autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+            required
+            className={inputClassName}
+          />
+        )}
+        {isTwoFactor && !useRecoveryCode && (
+          <CodeInput value={code} onChange={setCode} onComplete={submitCode} disabled={isSubmitting} />
+        )}
+        {isTwoFactor && useRecoveryCode && (
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="xxxx-xxxx"
+            autoComplete="one-time-code"
+            autoFocus
+            className={inputClassName}
+          />
+        )}
+
+        {error && <p className="text-[13px] text-[#B91C1C] px-1">{error}</p>}
+        {notice && <p className="text-[13px] text-[#15803D] px-1">{notice}</p>}
+
+        {pendingDeletionUntil && (
+          <div className="px-4 py-3 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg space-y-2">
+            <p className="text-[13px] text-[#525252]">
+              This account is scheduled for deletion on{' '}
+              {pendingDeletionUntil.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}. Restore it to keep
+              your journal.
+            </p>
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={isSubmitting}
+              className="text-[15px] font-semibold text-[#171717] hover:opacity-70 transition-opacity disabled:opacity-30"
+            >
+              Restore Account
+            </button>
+          </div>
+        )}
+
+        <motion.button
+          type="submit"
+          whileTap={{ scale: 0.98 }}
+          disabled={!canSubmit || isSubmitting}
+          className="w-full h-14 bg-[#171717] text-[#FAFAF9] rounded-lg shadow-sm font-semibold text-[17px] disabled:opacity-30"
+        >
+          {isSubmitting ? 'Please wait…' : submitLabel}
+        </motion.button>
+      </form>
+
+      {mode === 'signin' && (
+        <button
+          onClick={() => switchMode('forgot')}
+          className="mt-4 text-[13px] text-[#525252] hover:opacity-70 transition-opacity"
+        >
+          Forgot password?
+        </button>
+      )}
+
+      {isTwoFactor && (
+        <button
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError(null);
+          }}
+          className="mt-4 text-[13px] text-[#525252] hover:opacity-70 transition-opacity"
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+      )}
+
+      <button
+        onClick={() => switchMode(mode === 'signin' ? 'signup' : 'signin')}
+        className="mt-6 text-[15px] text-[#525252] hover:opacity-70 transition-opacity"
+      >
+        {mode === 'signin' ? 'New to Ink? '
+          : isSignUp ? 'Already have an account? '
+          : isTwoFactor ? 'Not you? '
+          : 'Remembered it? '}
+        <span className="font-semibold text-[#171717]">{mode === 'signin' ? 'Create an account' : 'Sign in'}</span>
+      </button>
+
+      <div className="mt-auto pt-12 text-center">
+        <button
+          onClick={continueAsGuest}
+          className="text-[13px] text-[#A3A3A3] hover:opacity-70 transition-opacity"
+        >
+          Continue without an account
+        </button>
+      </div>
+    </motion.div>
+  );
+}
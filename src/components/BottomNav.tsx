@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { Home, Calendar, Sparkles } from 'lucide-react';
+import { Home, Calendar, Search, Sparkles } from 'lucide-react';
 import type { Screen } from '../App';
 
 interface BottomNavProps {
@@ -11,6 +11,7 @@ export function BottomNav({ currentScreen, onNavigate }: BottomNavProps) {
   const navItems = [
     { id: 'home' as Screen, label: 'Home', icon: Home },
     { id: 'calendar' as Screen, label: 'Calendar', icon: Calendar },
+    { id: 'search' as Screen, label: 'Search', icon: Search },
     { id: 'insights' as Screen, label: 'Insights', icon: Sparkles },
   ];
 
@@ -1,66 +1,44 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
-import type { JournalEntry } from '../App';
+import type { JournalEntry, NewJournalEntry } from '../App';
 import { EntryDetail } from './EntryDetail';
 import { NewEntry } from './NewEntry';
+import { TagFilter } from './TagFilter';
+import { JournalSwitcher } from './JournalSwitcher';
+import { useMoods } from '../context/MoodsContext';
+import { useJournals } from '../context/JournalsContext';
+import { filterEntriesByTags } from '../lib/tags';
+import { filterEntriesByJournal } from '../lib/journals';
+import { countWords, markdownExcerpt } from '../shared/markdown';
+import { localDateKey } from '../shared/dates';
 
 interface CalendarProps {
   entries: JournalEntry[];
   onUpdateEntry?: (entry: JournalEntry) => void;
-  onNewEntry?: (entry: Omit<JournalEntry, 'id' | 'createdAt'>) => void;
+  onNewEntry?: (entry: NewJournalEntry) => void;
+  onDeleteEntry?: (entry: JournalEntry) => () => void;
 }
 
 type ViewMode = 'week' | 'month' | 'year';
 
-export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps) {
+export function Calendar({ entries: allEntries, onUpdateEntry, onNewEntry, onDeleteEntry }: CalendarProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('week');
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
   const [isCreatingEntry, setIsCreatingEntry] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { getMoodOrFallback } = useMoods();
+  const { selectedJournalId, defaultJournal } = useJournals();
+  // Every view below only sees entries in the selected journal that match the tag filter
+  const journalEntries = filterEntriesByJournal(allEntries, selectedJournalId, defaultJournal?.id);
+  const entries = filterEntriesByTags(journalEntries, selectedTags);
 
-  const getMoodColor = (mood?: string) => {
-    switch (mood) {
-      case 'joy':
-        return '#FCD34D';
-      case 'calm':
-        return '#93C5FD';
-      case 'sad':
-        return '#A5B4FC';
-      case 'anxious':
-        return '#FDA4AF';
-      case 'stressed':
-        return '#FB923C';
-      case 'motivated':
-        return '#86EFAC';
-      case 'grateful':
-        return '#DDD6FE';
-      default:
-        return '#D4D4D4';
-    }
-  };
-
-  const getMoodEmoji = (mood?: string) => {
-    switch (mood) {
-      case 'joy': return '😊';
-      case 'calm': return '😌';
-      case 'sad': return '😔';
-      case 'anxious': return '😰';
-      case 'stressed': return '🫠';
-      case 'motivated': return '💪';
-      case 'grateful': return '🙏';
-      default: return '😐';
-    }
-  };
-
+  // Entries sit on the day they are for, which a backdated entry's timestamp doesn't tell
   const getEntriesForDate = (date: Date) => {
-    return entries.filter(
-      (entry) =>
-        entry.date.getDate() === date.getDate() &&
-        entry.date.getMonth() === date.getMonth() &&
-        entry.date.getFullYear() === date.getFullYear()
-    );
+    const key = localDateKey(date);
+    return entries.filter((entry) => entry.entryDate === key);
   };
 
   const handleUpdateEntry = (updatedEntry: JournalEntry) => {
@@ -70,7 +48,7 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
     setSelectedEntry(null);
   };
 
-  const handleNewEntryForDate = (entryData: Omit<JournalEntry, 'id' | 'createdAt'>) => {
+  const handleNewEntryForDate = (entryData: NewJournalEntry) => {
     if (onNewEntry) {
       onNewEntry(entryData);
     }
@@ -102,6 +80,7 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
         entry={selectedEntry} 
         onBack={() => setSelectedEntry(null)} 
         onUpdate={handleUpdateEntry}
+        onDelete={onDeleteEntry}
       />
     );
   }
@@ -186,19 +165,19 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
                     <div
                       className="h-8 w-8 rounded-lg flex items-center justify-center text-lg"
                       style={{
-                        backgroundColor: getMoodColor(entry.mood) + '30',
+                        backgroundColor: getMoodOrFallback(entry.mood).color + '30',
                       }}
                     >
-                      {getMoodEmoji(entry.mood)}
+                      {getMoodOrFallback(entry.mood).emoji}
                     </div>
                   )}
                 </div>
                 <p className="text-[17px] text-[#525252] line-clamp-4 leading-relaxed mb-2">
-                  {entry.content}
+                  {markdownExcerpt(entry.content)}
                 </p>
                 <div className="flex items-center justify-between">
                   <span className="text-[13px] text-[#A3A3A3]">
-                    {entry.content.split(' ').length} words
+                    {countWords(entry.content)} words
                   </span>
                   <span className="text-[15px] text-[#171717] font-medium">
                     Read More →
@@ -256,7 +235,7 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
                     <div
                       key={i}
                       className="w-1.5 h-1.5 rounded-full"
-                      style={{ backgroundColor: getMoodColor(entry.mood), opacity: 0.6 }}
+                      style={{ backgroundColor: getMoodOrFallback(entry.mood).color, opacity: 0.6 }}
                     />
                   ))}
                 </div>
@@ -322,7 +301,7 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
                     <div
                       key={i}
                       className="w-1 h-1 rounded-full"
-                      style={{ backgroundColor: getMoodColor(entry.mood), opacity: 0.6 }}
+                      style={{ backgroundColor: getMoodOrFallback(entry.mood).color, opacity: 0.6 }}
                     />
                   ))}
                 </div>
@@ -338,19 +317,14 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
     const year = currentDate.getFullYear();
     
     // Count entries per day for the year
+    const yearEntries = entries.filter(entry => entry.entryDate.startsWith(`${year}-`));
     const entriesPerDay = new Map<string, number>();
-    entries.forEach(entry => {
-      if (entry.date.getFullYear() === year) {
-        const dateKey = `${entry.date.getFullYear()}-${entry.date.getMonth()}-${entry.date.getDate()}`;
-        entriesPerDay.set(dateKey, (entriesPerDay.get(dateKey) || 0) + 1);
-      }
+    yearEntries.forEach(entry => {
+      entriesPerDay.set(entry.entryDate, (entriesPerDay.get(entry.entryDate) || 0) + 1);
     });
 
     // Count entries in the year
-    const yearEntries = entries.filter(entry => entry.date.getFullYear() === year);
-    const daysWithEntries = new Set(yearEntries.map(entry => 
-      `${entry.date.getFullYear()}-${entry.date.getMonth()}-${entry.date.getDate()}`
-    )).size;
+    const daysWithEntries = entriesPerDay.size;
     
     return (
       <div>
@@ -380,7 +354,7 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
                   ))}
                   {Array.from({ length: daysInMonth }, (_, dayIndex) => {
                     const date = new Date(year, i, dayIndex + 1);
-                    const dateKey = `${year}-${i}-${dayIndex + 1}`;
+                    const dateKey = localDateKey(new Date(year, i, dayIndex + 1));
                     const entryCount = entriesPerDay.get(dateKey) || 0;
                     const opacity = entryCount === 0 ? 0.1 : entryCount === 1 ? 0.3 : entryCount === 2 ? 0.6 : 1;
                     
@@ -426,7 +400,7 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
                         );
                       }
                       
-                      const dateKey = `${currentDay.getFullYear()}-${currentDay.getMonth()}-${currentDay.getDate()}`;
+                      const dateKey = localDateKey(currentDay);
                       const entryCount = entriesPerDay.get(dateKey) || 0;
                       const opacity = entryCount === 0 ? 0.1 : entryCount === 1 ? 0.3 : entryCount === 2 ? 0.6 : 1;
                       
@@ -497,6 +471,9 @@ export function Calendar({ entries, onUpdateEntry, onNewEntry }: CalendarProps)
           ))}
         </div>
 
+        <JournalSwitcher className="mb-2 -mx-5 px-5" />
+        <TagFilter entries={journalEntries} selected={selectedTags} onChange={setSelectedTags} className="mb-4 -mx-5 px-5" />
+
         {/* Date Navigation */}
         <div className="flex items-center justify-between">
           <button
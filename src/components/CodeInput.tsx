@@ -0,0 +1,37 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+
+interface CodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+const CODE_LENGTH = 6;
+
+// Six-digit authenticator code entry, styled to match the rest of the app
+export function CodeInput({ value, onChange, onComplete, disabled }: CodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={CODE_LENGTH}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      pattern="^[0-9]*$"
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup className="gap-2">
+        {Array.from({ length: CODE_LENGTH }, (_, index) => (
+          <InputOTPSlot
+            key={index}
+            index={index}
+            className="w-11 h-14 rounded-lg border border-[#E5E5E5] bg-[#FAFAF9] text-[22px] font-semibold text-[#171717] data-[active=true]:border-[#171717] data-[active=true]:ring-0"
+          />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { Calendar, FileText, Home, PenLine, Search, Settings, Sparkles, User } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from './ui/command';
+import type { JournalEntry, Screen } from '../App';
+import { useMoods } from '../context/MoodsContext';
+import { SETTING_LABELS, useSettings, type SettingKey } from '../context/SettingsContext';
+import { formatShortcut } from '../lib/shortcuts';
+import { parseRelativeDate } from '../lib/relativeDate';
+import { markdownToPlainText } from '../shared/markdown';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: JournalEntry[];
+  onNavigate: (screen: Screen) => void;
+  onOpenEntry: (entry: JournalEntry) => void;
+  onNewEntry: (date?: Date) => void;
+  onGenerateInsights: () => void;
+}
+
+// Keeps the list responsive for long journals; fuzzy matching still covers the most recent entries
+const MAX_ENTRY_ITEMS = 200;
+
+const screens: { id: Screen; label: string; icon: typeof Home }[] = [
+  { id: 'home', label: 'Home', icon: Home },
+  { id: 'calendar', label: 'Calendar', icon: Calendar },
+  { id: 'search', label: 'Search', icon: Search },
+  { id: 'insights', label: 'Insights', icon: Sparkles },
+  { id: 'profile', label: 'Profile', icon: User },
+];
+
+// "new entry yesterday", "write last friday", or just "yesterday"
+const stripNewEntryPrefix = (search: string) => search.replace(/^\s*(new entry|new|entry|write)\b\s*(for\s+)?/i, '');
+
+const entryTitle = (entry: JournalEntry) => markdownToPlainText(entry.content).split('\n')[0].slice(0, 80);
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  entries,
+  onNavigate,
+  onOpenEntry,
+  onNewEntry,
+  onGenerateInsights,
+}: CommandPaletteProps) {
+  const [search, setSearch] = useState('');
+  const { getMood } = useMoods();
+  const { settings, toggleSetting } = useSettings();
+
+  const entryDate = useMemo(() => parseRelativeDate(stripNewEntryPrefix(search)), [search]);
+
+  const run = (action: () => void) => {
+    action();
+    setSearch('');
+    onOpenChange(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setSearch('');
+    onOpenChange(next);
+  };
+
+  const itemClassName = 'text-[15px] text-[#171717] data-[selected=true]:bg-[#F5F5F4]';
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} title="Command Palette" description="Jump anywhere in Ink">
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder="Type a command, an entry, or “new entry yesterday”…"
+        className="text-[15px]"
+      />
+      <CommandList className="max-h-[400px]">
+        <CommandEmpty className="py-6 text-center text-[15px] text-[#A3A3A3]">No results.</CommandEmpty>
+
+        <CommandGroup heading="Write">
+          {entryDate && (
+            <CommandItem
+              value={`new entry for ${search}`}
+              keywords={[search]}
+              onSelect={() => run(() => onNewEntry(entryDate))}
+              className={itemClassName}
+            >
+              <PenLine />
+              New entry for {entryDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+            </CommandItem>
+          )}
+          <CommandItem value="new entry today" onSelect={() => run(() => onNewEntry())} className={itemClassName}>
+            <PenLine />
+            New entry
+            <CommandShortcut>{formatShortcut('newEntry')}</CommandShortcut>
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Go to">
+          {screens.map((screen) => {
+            const Icon = screen.icon;
+            return (
+              <CommandItem
+                key={screen.id}
+                value={`go to ${screen.label}`}
+                onSelect={() => run(() => onNavigate(screen.id))}
+                className={itemClassName}
+              >
+                <Icon />
+                {screen.label}
+                {screen.id === 'search' && <CommandShortcut>{formatShortcut('search')}</CommandShortcut>}
+              </CommandItem>
+            );
+          })}
+        </CommandGroup>
+
+        <CommandGroup heading="Insights">
+          <CommandItem value="generate weekly insights" onSelect={() => run(onGenerateInsights)} className={itemClassName}>
+            <Sparkles />
+            Generate weekly insights
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Settings">
+          {(Object.keys(SETTING_LABELS) as SettingKey[]).map((key) => (
+            <CommandItem
+              key={key}
+              value={`toggle ${SETTING_LABELS[key]}`}
+              onSelect={() => run(() => toggleSetting(key))}
+              className={itemClassName}
+            >
+              <Settings />
+              Turn {settings[key] ? 'off' : 'on'} {SETTING_LABELS[key].toLowerCase()}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        {/* Only searched entries are listed, so an empty query shows commands first */}
+        {search.trim() && (
+          <CommandGroup heading="Entries">
+            {entries.slice(0, MAX_ENTRY_ITEMS).map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={`entry ${entry.id}`}
+                keywords={[entry.content.slice(0, 500), getMood(entry.mood)?.label ?? '']}
+                onSelect={() => run(() => onOpenEntry(entry))}
+                className={itemClassName}
+              >
+                <FileText />
+                <span className="truncate">{entryTitle(entry) || 'Untitled entry'}</span>
+                <CommandShortcut className="tracking-normal text-[13px] text-[#A3A3A3]">
+                  {entry.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MAX_MOOD_SCORE, MIN_MOOD_SCORE, type CustomMood } from '../shared/moods';
+import { useMoods } from '../context/MoodsContext';
+
+interface CustomMoodFormProps {
+  onCreated: (mood: CustomMood) => void;
+  onCancel: () => void;
+}
+
+const colorOptions = ['#FCD34D', '#86EFAC', '#93C5FD', '#DDD6FE', '#F9A8D4', '#FDA4AF', '#FB923C', '#CBD5E1'];
+
+const scoreOptions = Array.from({ length: MAX_MOOD_SCORE - MIN_MOOD_SCORE + 1 }, (_, i) => MIN_MOOD_SCORE + i);
+
+export function CustomMoodForm({ onCreated, onCancel }: CustomMoodFormProps) {
+  const { createMood } = useMoods();
+  const [label, setLabel] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [color, setColor] = useState(colorOptions[0]);
+  const [score, setScore] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!label.trim() || !emoji.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await createMood({ label: label.trim(), emoji: emoji.trim(), color, score });
+      onCreated(created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t save mood');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      transition={{ duration: 0.2 }}
+      className="px-5 py-4 border-b border-[#E5E5E5] bg-[#FAFAF9] space-y-4"
+    >
+      <div className="flex gap-3">
+        <input
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          placeholder="🙂"
+          maxLength={4}
+          aria-label="Mood emoji"
+          className="w-12 h-11 text-center text-xl bg-[#FFFFFF] border border-[#E5E5E5] rounded-lg outline-none"
+        />
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Mood name"
+          maxLength={30}
+          aria-label="Mood name"
+          className="flex-1 h-11 px-3 text-[15px] bg-[#FFFFFF] border border-[#E5E5E5] rounded-lg outline-none"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        {colorOptions.map((option) => (
+          <button
+            key={option}
+            onClick={() => setColor(option)}
+            aria-label={`Color ${option}`}
+            className="w-7 h-7 rounded-full border-2 transition-all"
+            style={{ backgroundColor: option, borderColor: color === option ? '#171717' : 'transparent' }}
+          />
+        ))}
+      </div>
+
+      <div>
+        <p className="text-[13px] text-[#525252] mb-2">How does it feel?</p>
+        <div className="flex gap-1.5">
+          {scoreOptions.map((option) => (
+            <button
+              key={option}
+              onClick={() => setScore(option)}
+              className={`flex-1 h-9 rounded-lg text-[13px] font-medium transition-all ${
+                score === option ? 'bg-[#171717] text-[#FAFAF9]' : 'bg-[#F5F5F4] text-[#525252]'
+              }`}
+            >
+              {option > 0 ? `+${option}` : option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="text-[15px] text-[#525252] font-medium px-3 py-2">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !label.trim() || !emoji.trim()}
+          className="text-[15px] bg-[#171717] text-[#FAFAF9] font-medium px-4 py-2 rounded-lg disabled:opacity-30"
+        >
+          {isSaving ? 'Saving…' : 'Add Mood'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, Download } from 'lucide-react';
+import { ApiError, apiFetch } from '../lib/api';
+import { useAuth } from '../context/AuthContext';
+
+interface DataStorageProps {
+  onBack: () => void;
+}
+
+const fileNameFromResponse = (response: Response) => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  return disposition.match(/filename="([^"]+)"/)?.[1] || 'ink-export.zip';
+};
+
+export function DataStorage({ onBack }: DataStorageProps) {
+  const { status } = useAuth();
+  const isSignedIn = status === 'authenticated';
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const response = await apiFetch('/account/export');
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new ApiError(response.status, data?.error || 'Export failed', data);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileNameFromResponse(response);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="min-h-screen bg-[#FFFFFF]"
+    >
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-[#E5E5E5] flex items-center">
+        <button onClick={onBack} className="flex items-center gap-1 -ml-2">
+          <ChevronLeft className="w-6 h-6 text-[#171717]" strokeWidth={2} />
+          <span className="text-[17px] text-[#171717]">Profile</span>
+        </button>
+      </div>
+
+      <div className="px-5 py-6 space-y-4">
+        <h3 className="text-[13px] font-semibold text-[#525252] uppercase">Export</h3>
+        <p className="text-[15px] text-[#525252] leading-relaxed">
+          Download every entry as JSON and as Markdown files, along with your custom moods and insights, in a
+          single ZIP archive.
+        </p>
+
+        {isSignedIn ? (
+          <motion.button
+            whileTap={{ scale: 0.98 }}
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full h-12 flex items-center justify-center gap-2 bg-[#171717] text-[#FAFAF9] rounded-lg font-semibold text-[17px] disabled:opacity-30"
+          >
+            <Download className="w-5 h-5" strokeWidth={2} />
+            {isExporting ? 'Preparing…' : 'Export Journal'}
+          </motion.button>
+        ) : (
+          <p className="text-[15px] text-[#A3A3A3]">Sign in to export your journal.</p>
+        )}
+
+        {error && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { useAuth } from '../context/AuthContext';
+
+export function DeleteAccountDialog() {
+  const { user, deleteAccount } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsCode = !!user?.twoFactorEnabled;
+  const canDelete = password.length > 0 && (!needsCode || code.trim().length > 0);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isDeleting) return;
+    setOpen(next);
+    if (!next) {
+      setPassword('');
+      setCode('');
+      setError(null);
+    }
+  };
+
+  // Not an AlertDialogAction: that would close the dialog before we know whether the password was right
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await deleteAccount(password, needsCode ? code.trim() : undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t delete your account');
+      setIsDeleting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full h-12 px-4 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg text-[17px] text-[#171717] placeholder:text-[#A3A3A3] outline-none focus:border-[#171717] transition-colors';
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <button className="text-[15px] text-[#A3A3A3] font-medium hover:opacity-70 transition-opacity">
+          Delete Account
+        </button>
+      </AlertDialogTrigger>
+      <AlertDialogContent className="bg-[#FFFFFF] border-[#E5E5E5] max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-[20px] text-[#171717]">Delete your account?</AlertDialogTitle>
+          <AlertDialogDescription className="text-[15px] text-[#525252] leading-relaxed">
+            You’ll be signed out everywhere. Your journal is kept for 14 days in case you change your mind, then
+            it’s permanently deleted. Sign in before then to restore it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+          {needsCode && (
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Authenticator or recovery code"
+              autoComplete="one-time-code"
+              className={inputClassName}
+            />
+          )}
+          {error && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting} className="text-[15px]">
+            Cancel
+          </AlertDialogCancel>
+          <button
+            onClick={handleDelete}
+            disabled={!canDelete || isDeleting}
+            className="h-9 px-4 rounded-md bg-[#FF3B30] text-[#FFFFFF] text-[15px] font-medium disabled:opacity-30"
+          >
+            {isDeleting ? 'Deleting…' : 'Delete Account'}
+          </button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
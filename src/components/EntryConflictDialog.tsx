@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { useMoods } from '../context/MoodsContext';
+import { diffWords } from '../lib/diff';
+import type { ConflictResolution, EntryConflict } from '../lib/sync';
+
+interface EntryConflictDialogProps {
+  conflict: EntryConflict;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+const formatChangedAt = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function EntryConflictDialog({ conflict, open, onOpenChange, onResolve }: EntryConflictDialogProps) {
+  const { local, remote } = conflict;
+  const remoteMood = remote.moodEmoji ?? undefined;
+  const [mergedText, setMergedText] = useState<string | null>(null);
+  const { getMoodOrFallback } = useMoods();
+
+  // Each side highlights what only it has
+  const diff = useMemo(() => diffWords(remote.content, local.content), [remote.content, local.content]);
+
+  // Starting point for a merge: everything either side wrote, in order, for the user to trim
+  const startMerge = () => setMergedText(diff.map((part) => part.text).join(''));
+
+  const resolve = (resolution: ConflictResolution) => {
+    onResolve(resolution);
+    onOpenChange(false);
+  };
+
+  const column = (title: string, mood: string | undefined, side: 'removed' | 'added') => (
+    <div className="min-w-0 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[13px] font-semibold text-[#171717]">{title}</span>
+        {mood && <span className="text-base">{getMoodOrFallback(mood).emoji}</span>}
+      </div>
+      <p className="text-[14px] text-[#171717] leading-[1.6] whitespace-pre-wrap break-words">
+        {diff.map((part, i) =>
+          part.type === 'equal' ? (
+            <span key={i}>{part.text}</span>
+          ) : part.type === side ? (
+            <mark
+              key={i}
+              className={side === 'added' ? 'bg-[#DCFCE7] text-[#166534] rounded-sm' : 'bg-[#FEE2E2] text-[#991B1B] rounded-sm'}
+            >
+              {part.text}
+            </mark>
+          ) : null
+        )}
+      </p>
+    </div>
+  );
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next: boolean) => {
+        if (!next) setMergedText(null);
+        onOpenChange(next);
+      }}
+    >
+      <SheetContent side="bottom" className="max-h-[85vh] rounded-t-[16px] bg-[#FFFFFF] px-5 pb-6 gap-0">
+        <SheetHeader className="px-0 pb-4">
+          {mergedText !== null && (
+            <button onClick={() => setMergedText(null)} className="flex items-center gap-1 -ml-2 mb-1 self-start">
+              <ChevronLeft className="w-5 h-5 text-[#171717]" strokeWidth={2} />
+              <span className="text-[15px] text-[#171717]">Both versions</span>
+            </button>
+          )}
+          <SheetTitle className="text-[20px] font-semibold text-[#171717]">
+            {mergedText !== null ? 'Merge' : 'Edited on another device'}
+          </SheetTitle>
+          <SheetDescription className="text-[13px] text-[#525252]">
+            {mergedText !== null
+              ? 'Both versions are combined below. Edit until it reads right.'
+              : `Your edit wasn’t saved because this entry changed on ${formatChangedAt(remote.updatedAt)}.`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {mergedText !== null ? (
+          <>
+            <textarea
+              value={mergedText}
+              onChange={(e) => setMergedText(e.target.value)}
+              className="w-full min-h-[240px] p-3 mb-4 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg text-[15px] text-[#171717] leading-[1.6] resize-none focus:outline-none"
+              autoFocus
+            />
+            <button
+              onClick={() => resolve({ content: mergedText, mood: local.mood ?? remoteMood })}
+              disabled={!mergedText.trim()}
+              className="w-full h-12 bg-[#171717] text-[#FFFFFF] rounded-lg font-medium hover:bg-[#525252] transition-colors disabled:opacity-50"
+            >
+              Save merged version
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 mb-4 overflow-y-auto">
+              {column('This device', local.mood, 'added')}
+              {column('Other device', remoteMood, 'removed')}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => resolve(local)}
+                className="h-12 bg-[#171717] text-[#FFFFFF] rounded-lg font-medium hover:bg-[#525252] transition-colors"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => resolve(null)}
+                className="h-12 bg-[#F5F5F4] border border-[#E5E5E5] text-[#171717] rounded-lg font-medium hover:bg-[#E5E5E5] transition-colors"
+              >
+                Keep theirs
+              </button>
+              <button
+                onClick={startMerge}
+                className="h-12 bg-[#F5F5F4] border border-[#E5E5E5] text-[#171717] rounded-lg font-medium hover:bg-[#E5E5E5] transition-colors"
+              >
+                Merge
+              </button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
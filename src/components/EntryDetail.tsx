@@ -1,58 +1,49 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { ChevronLeft, Edit2 } from 'lucide-react';
-import type { JournalEntry } from '../App';
+import { AlertTriangle, ChevronDown, ChevronLeft, Edit2, History, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { JournalEntry, NewJournalEntry } from '../App';
 import { NewEntry } from './NewEntry';
+import { EntryHistory } from './EntryHistory';
+import { EntryConflictDialog } from './EntryConflictDialog';
+import { Markdown } from './Markdown';
+import { JournalIcon } from './JournalIcon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { useMoods } from '../context/MoodsContext';
+import { useAuth } from '../context/AuthContext';
+import { useSync } from '../context/SyncContext';
+import { useJournals } from '../context/JournalsContext';
+import type { ConflictResolution, ServerEntry } from '../lib/sync';
+import { entryJournalId } from '../lib/journals';
+import { countWords } from '../shared/markdown';
 
 interface EntryDetailProps {
   entry: JournalEntry;
   onBack: () => void;
   onUpdate?: (entry: JournalEntry) => void;
+  onDelete?: (entry: JournalEntry) => () => void; // Returns a function that undoes the delete
 }
 
-export function EntryDetail({ entry, onBack, onUpdate }: EntryDetailProps) {
+export function EntryDetail({ entry, onBack, onUpdate, onDelete }: EntryDetailProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isConflictOpen, setIsConflictOpen] = useState(false);
+  const { token } = useAuth();
+  const { conflicts, resolveConflict, applyServerEntry } = useSync();
+  const conflict = conflicts.find((c) => c.entryId === entry.id);
 
-  const getMoodEmoji = (mood?: string) => {
-    switch (mood) {
-      case 'joy': return '😊';
-      case 'calm': return '😌';
-      case 'sad': return '😔';
-      case 'anxious': return '😰';
-      case 'stressed': return '🫠';
-      case 'motivated': return '💪';
-      case 'grateful': return '🙏';
-      default: return '😐';
-    }
-  };
-
-  const getMoodColor = (mood?: string) => {
-    switch (mood) {
-      case 'joy': return '#FCD34D';
-      case 'calm': return '#93C5FD';
-      case 'sad': return '#A5B4FC';
-      case 'anxious': return '#FDA4AF';
-      case 'stressed': return '#FB923C';
-      case 'motivated': return '#86EFAC';
-      case 'grateful': return '#DDD6FE';
-      default: return '#D4D4D4';
-    }
-  };
-
-  const getMoodLabel = (mood?: string) => {
-    switch (mood) {
-      case 'joy': return 'Joyful';
-      case 'calm': return 'Calm';
-      case 'sad': return 'Sad';
-      case 'anxious': return 'Anxious';
-      case 'stressed': return 'Stressed';
-      case 'motivated': return 'Motivated';
-      case 'grateful': return 'Grateful';
-      default: return 'Neutral';
-    }
-  };
+  const { getMoodOrFallback } = useMoods();
+  const mood = getMoodOrFallback(entry.mood);
+  const { journals, defaultJournal, getJournal } = useJournals();
+  const journal = getJournal(entryJournalId(entry, defaultJournal?.id));
 
-  const handleSaveEdit = (updatedData: Omit<JournalEntry, 'id' | 'createdAt'>) => {
+  const handleSaveEdit = (updatedData: NewJournalEntry) => {
     if (onUpdate) {
       onUpdate({
         ...entry,
@@ -62,6 +53,34 @@ export function EntryDetail({ entry, onBack, onUpdate }: EntryDetailProps) {
     setIsEditing(false);
   };
 
+  const handleMove = (journalId: string) => {
+    if (!onUpdate) return;
+    onUpdate({ ...entry, journalId });
+    toast(`Moved to ${getJournal(journalId)?.name ?? 'journal'}`);
+  };
+
+  const handleDelete = () => {
+    if (!onDelete) return;
+    const undo = onDelete(entry);
+    toast('Entry moved to trash', {
+      description: token ? 'It will be deleted for good in 30 days.' : undefined,
+      action: { label: 'Undo', onClick: undo },
+    });
+    onBack();
+  };
+
+  // The server has already saved the restored version, so it only needs to replace this entry locally
+  const handleRestore = (restored: ServerEntry) => {
+    void applyServerEntry(restored);
+    onBack();
+  };
+
+  // The resolved version replaces this entry in the list, so go back to it like after an edit
+  const handleResolveConflict = (resolution: ConflictResolution) => {
+    resolveConflict(entry.id, resolution);
+    onBack();
+  };
+
   if (isEditing) {
     return (
       <NewEntry
@@ -90,17 +109,67 @@ export function EntryDetail({ entry, onBack, onUpdate }: EntryDetailProps) {
           <span className="text-[17px] text-[#171717]">Back</span>
         </button>
 
-        <button
-          onClick={() => setIsEditing(true)}
-          className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-[#F5F5F4] transition-colors"
-          aria-label="Edit entry"
-        >
-          <Edit2 className="w-5 h-5 text-[#171717]" strokeWidth={2} />
-        </button>
+        <div className="flex items-center gap-1">
+          {/* Revisions are kept by the server, so guests have no history */}
+          {token && (
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-[#F5F5F4] transition-colors"
+              aria-label="Entry history"
+            >
+              <History className="w-5 h-5 text-[#171717]" strokeWidth={2} />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={handleDelete}
+              className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-[#F5F5F4] transition-colors"
+              aria-label="Delete entry"
+            >
+              <Trash2 className="w-5 h-5 text-[#171717]" strokeWidth={2} />
+            </button>
+          )}
+          <button
+            onClick={() => setIsEditing(true)}
+            className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-[#F5F5F4] transition-colors"
+            aria-label="Edit entry"
+          >
+            <Edit2 className="w-5 h-5 text-[#171717]" strokeWidth={2} />
+          </button>
+        </div>
       </div>
 
+      {token && (
+        <EntryHistory
+          entry={entry}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          onRestore={handleRestore}
+        />
+      )}
+
+      {conflict && (
+        <EntryConflictDialog
+          conflict={conflict}
+          open={isConflictOpen}
+          onOpenChange={setIsConflictOpen}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
       {/* Entry Content */}
       <div className="px-5 py-6">
+        {conflict && (
+          <button
+            onClick={() => setIsConflictOpen(true)}
+            className="w-full mb-6 px-4 py-3 bg-[#FEF3C7] border border-[#FDE68A] rounded-lg flex items-center gap-3 text-left hover:bg-[#FDE68A] transition-colors"
+          >
+            <AlertTriangle className="w-5 h-5 text-[#92400E] shrink-0" strokeWidth={2} />
+            <span className="flex-1 text-[15px] text-[#92400E]">This entry was also edited on another device.</span>
+            <span className="text-[15px] font-medium text-[#92400E]">Review</span>
+          </button>
+        )}
+
         {/* Date and Time */}
         <div className="mb-6">
           <h1 className="text-[28px] font-bold text-[#171717] mb-2">
@@ -119,16 +188,43 @@ export function EntryDetail({ entry, onBack, onUpdate }: EntryDetailProps) {
           </p>
         </div>
 
+        {/* Journal: only worth showing once there is somewhere else to move the entry */}
+        {journal && journals.length > 1 && (
+          <div className="mb-6">
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                disabled={!onUpdate}
+                className="inline-flex items-center gap-2 h-9 px-3 rounded-lg bg-[#F5F5F4] text-[15px] font-medium text-[#171717]"
+              >
+                <JournalIcon icon={journal.icon} color={journal.color} />
+                {journal.name}
+                {onUpdate && <ChevronDown className="w-4 h-4 text-[#525252]" strokeWidth={2} />}
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                {journals
+                  .filter((j) => j.id !== journal.id)
+                  .map((j) => (
+                    <DropdownMenuItem key={j.id} onSelect={() => handleMove(j.id)}>
+                      <JournalIcon icon={j.icon} color={j.color} />
+                      {j.name}
+                    </DropdownMenuItem>
+                  ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+
         {/* Mood Badge */}
         {entry.mood && (
           <div className="mb-6">
             <div 
               className="inline-flex items-center gap-2 px-4 py-2 rounded-lg"
-              style={{ backgroundColor: getMoodColor(entry.mood) + '30' }}
+              style={{ backgroundColor: mood.color + '30' }}
             >
-              <span className="text-xl">{getMoodEmoji(entry.mood)}</span>
+              <span className="text-xl">{mood.emoji}</span>
               <span className="text-[15px] font-medium text-[#171717]">
-                {getMoodLabel(entry.mood)}
+                {mood.label}
               </span>
             </div>
           </div>
@@ -148,16 +244,12 @@ export function EntryDetail({ entry, onBack, onUpdate }: EntryDetailProps) {
         )}
 
         {/* Entry Text */}
-        <div className="prose prose-lg max-w-none">
-          <p className="text-[17px] text-[#171717] leading-[1.7] whitespace-pre-wrap">
-            {entry.content}
-          </p>
-        </div>
+        <Markdown content={entry.content} className="text-[17px] text-[#171717] leading-[1.7]" />
 
         {/* Metadata */}
         <div className="mt-8 pt-6 border-t border-[#E5E5E5]">
           <p className="text-[13px] text-[#A3A3A3]">
-            {entry.content.split(' ').length} words
+            {countWords(entry.content)} words
             {entry.photos && entry.photos.length > 0 && ` • ${entry.photos.length} ${entry.photos.length === 1 ? 'photo' : 'photos'}`}
           </p>
         </div>
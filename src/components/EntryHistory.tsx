@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, RotateCcw } from 'lucide-react';
+import type { JournalEntry } from '../App';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { useMoods } from '../context/MoodsContext';
+import { ApiError, apiRequest } from '../lib/api';
+import { diffWords } from '../lib/diff';
+import type { ServerEntry } from '../lib/sync';
+import { countWords, markdownExcerpt } from '../shared/markdown';
+
+interface EntryHistoryProps {
+  entry: JournalEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (restored: ServerEntry) => void; // The entry as the server saved it, with its new version
+}
+
+interface EntryRevision {
+  revision: number;
+  content: string;
+  moodEmoji: string | null;
+  savedAt: string;
+  createdAt: string;
+}
+
+const formatSavedAt = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function EntryHistory({ entry, open, onOpenChange, onRestore }: EntryHistoryProps) {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [selected, setSelected] = useState<EntryRevision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { getMoodOrFallback } = useMoods();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setRevisions(null);
+    setSelected(null);
+    setError(null);
+    apiRequest<{ revisions: EntryRevision[] }>(`/entries/${entry.id}/revisions`)
+      .then((data) => {
+        if (!cancelled) setRevisions(data.revisions);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        // Entries that only exist on this device have no server history
+        if (err instanceof ApiError && err.status === 404) setRevisions([]);
+        else setError(err instanceof Error ? err.message : 'Couldn’t load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, entry.id]);
+
+  // Read as "what changed since this version": removed text is only in the old version
+  const diff = useMemo(() => (selected ? diffWords(selected.content, entry.content) : []), [selected, entry.content]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const restored = await apiRequest<ServerEntry>(`/entries/${entry.id}/revisions/${selected.revision}/restore`, {
+        method: 'POST',
+      });
+      onRestore(restored);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t restore this version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[85vh] rounded-t-[16px] bg-[#FFFFFF] px-5 pb-6 gap-0">
+        <SheetHeader className="px-0 pb-4">
+          {selected && (
+            <button onClick={() => setSelected(null)} className="flex items-center gap-1 -ml-2 mb-1 self-start">
+              <ChevronLeft className="w-5 h-5 text-[#171717]" strokeWidth={2} />
+              <span className="text-[15px] text-[#171717]">All versions</span>
+            </button>
+          )}
+          <SheetTitle className="text-[20px] font-semibold text-[#171717]">
+            {selected ? formatSavedAt(selected.savedAt) : 'History'}
+          </SheetTitle>
+          <SheetDescription className="text-[13px] text-[#525252]">
+            {selected ? 'Changes made since this version' : 'Earlier versions of this entry'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {error && <p className="text-[13px] text-[#DC2626] mb-3">{error}</p>}
+
+        <div className="overflow-y-auto">
+          {selected ? (
+            <>
+              <p className="text-[17px] text-[#171717] leading-[1.7] whitespace-pre-wrap mb-6">
+                {diff.map((part, i) =>
+                  part.type === 'removed' ? (
+                    <del key={i} className="bg-[#FEE2E2] text-[#991B1B] rounded-sm">
+                      {part.text}
+                    </del>
+                  ) : part.type === 'added' ? (
+                    <ins key={i} className="bg-[#DCFCE7] text-[#166534] no-underline rounded-sm">
+                      {part.text}
+                    </ins>
+                  ) : (
+                    <span key={i}>{part.text}</span>
+                  )
+                )}
+              </p>
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className="w-full h-12 bg-[#171717] text-[#FFFFFF] rounded-lg flex items-center justify-center gap-2 font-medium hover:bg-[#525252] transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="w-5 h-5" strokeWidth={2} />
+                {isRestoring ? 'Restoring…' : 'Restore this version'}
+              </button>
+            </>
+          ) : revisions === null ? (
+            !error && <p className="text-center py-8 text-[15px] text-[#A3A3A3]">Loading…</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-center py-8 text-[15px] text-[#A3A3A3]">This entry hasn’t been edited.</p>
+          ) : (
+            <div className="space-y-2">
+              {revisions.map((revision) => {
+                const mood = revision.moodEmoji ? getMoodOrFallback(revision.moodEmoji) : null;
+                return (
+                  <button
+                    key={revision.revision}
+                    onClick={() => setSelected(revision)}
+                    className="w-full bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg p-4 text-left hover:bg-[#F5F5F4] transition-colors"
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-[15px] font-semibold text-[#171717]">{formatSavedAt(revision.savedAt)}</span>
+                      {mood && <span className="text-lg">{mood.emoji}</span>}
+                    </div>
+                    <p className="text-[15px] text-[#525252] line-clamp-2">{markdownExcerpt(revision.content)}</p>
+                    <span className="text-[13px] text-[#A3A3A3]">{countWords(revision.content)} words</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,42 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface GuestEntriesDialogProps {
+  count: number;
+  onAdd: () => void;
+  onDiscard: () => void;
+}
+
+// Asked after signing in on a device with a guest journal; nothing from it is uploaded unless the user says so
+export function GuestEntriesDialog({ count, onAdd, onDiscard }: GuestEntriesDialogProps) {
+  const entries = count === 1 ? '1 entry' : `${count} entries`;
+  return (
+    <AlertDialog open={count > 0}>
+      <AlertDialogContent className="bg-[#FFFFFF] border-[#E5E5E5] max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-[20px] text-[#171717]">Add entries from this device?</AlertDialogTitle>
+          <AlertDialogDescription className="text-[15px] text-[#525252] leading-relaxed">
+            {entries} on this device {count === 1 ? 'was' : 'were'} written without an account. Add them to your
+            journal, or remove them from this device.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard} className="text-[15px]">
+            Remove
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={onAdd} className="text-[15px] bg-[#171717] hover:bg-[#525252]">
+            Add to journal
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
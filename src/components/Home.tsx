@@ -3,16 +3,30 @@ import { Calendar, Sparkles, User } from 'lucide-react';
 import type { JournalEntry } from '../App';
 import { useState } from 'react';
 import { EntryDetail } from './EntryDetail';
+import { SyncIndicator } from './SyncIndicator';
+import { JournalSwitcher } from './JournalSwitcher';
+import { useMoods } from '../context/MoodsContext';
+import { useSync } from '../context/SyncContext';
+import { useJournals } from '../context/JournalsContext';
+import { filterEntriesByJournal } from '../lib/journals';
+import { markdownExcerpt } from '../shared/markdown';
 
 interface HomeProps {
   onStartEntry: () => void;
   onNavigate: (screen: 'calendar' | 'insights' | 'profile') => void;
   entries: JournalEntry[];
   onUpdateEntry?: (entry: JournalEntry) => void;
+  onDeleteEntry?: (entry: JournalEntry) => () => void;
 }
 
-export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeProps) {
+export function Home({ onStartEntry, onNavigate, entries: allEntries, onUpdateEntry, onDeleteEntry }: HomeProps) {
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
+  const { getMoodOrFallback } = useMoods();
+  const sync = useSync();
+  const { selectedJournalId, defaultJournal } = useJournals();
+
+  // Everything below is about the journal picked in the switcher
+  const entries = filterEntriesByJournal(allEntries, selectedJournalId, defaultJournal?.id);
 
   // Calculate streak (simplified)
   const streak = entries.length > 0 ? Math.min(entries.length, 7) : 0;
@@ -31,33 +45,6 @@ export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeP
     return `${days} days ago`;
   };
 
-  // Get mood emoji and color
-  const getMoodEmoji = (mood?: string) => {
-    switch (mood) {
-      case 'joy': return '😊';
-      case 'calm': return '😌';
-      case 'sad': return '😔';
-      case 'anxious': return '😰';
-      case 'stressed': return '🫠';
-      case 'motivated': return '💪';
-      case 'grateful': return '🙏';
-      default: return '😐';
-    }
-  };
-
-  const getMoodColor = (mood?: string) => {
-    switch (mood) {
-      case 'joy': return '#FCD34D';
-      case 'calm': return '#93C5FD';
-      case 'sad': return '#A5B4FC';
-      case 'anxious': return '#FDA4AF';
-      case 'stressed': return '#FB923C';
-      case 'motivated': return '#86EFAC';
-      case 'grateful': return '#DDD6FE';
-      default: return '#D4D4D4';
-    }
-  };
-
   const handleUpdateEntry = (updatedEntry: JournalEntry) => {
     if (onUpdateEntry) {
       onUpdateEntry(updatedEntry);
@@ -72,6 +59,7 @@ export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeP
         entry={selectedEntry} 
         onBack={() => setSelectedEntry(null)} 
         onUpdate={handleUpdateEntry}
+        onDelete={onDeleteEntry}
       />
     );
   }
@@ -86,8 +74,10 @@ export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeP
       transition={{ duration: 0.3, ease: 'easeOut' }}
       className="min-h-screen px-5 pt-4 pb-6"
     >
-      {/* Header: Ink Logo (center) | Profile (right) */}
+      {/* Header: Sync status (left) | Ink Logo (center) | Profile (right) */}
       <div className="relative flex items-center mb-16 h-12">
+        <SyncIndicator sync={sync} className="absolute left-0 top-1" />
+
         {/* Ink Logo - Centered */}
         <div className="absolute left-1/2 -translate-x-1/2">
           <h1 className="text-[20px] font-semibold text-[#171717]">Ink</h1>
@@ -102,6 +92,8 @@ export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeP
         </button>
       </div>
 
+      <JournalSwitcher allowCreate className="mb-4 -mx-5 px-5" />
+
       {/* Hero CTA - Large, Centered */}
       <div className="text-center mb-8 mt-8">
         <motion.h2
@@ -133,7 +125,9 @@ export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeP
           transition={{ delay: 0.2, duration: 0.3 }}
           className="text-center py-8 text-[15px] text-[#A3A3A3]"
         >
-          No entries yet. Tap "Write about today" to start.
+          {sync.importedCount !== null
+            ? 'Loading your journal…'
+            : 'No entries yet. Tap "Write about today" to start.'}
         </motion.div>
       )}
 
@@ -186,15 +180,15 @@ export function Home({ onStartEntry, onNavigate, entries, onUpdateEntry }: HomeP
                     <div
                       className="h-8 w-8 rounded-lg flex items-center justify-center text-lg flex-shrink-0"
                       style={{
-                        backgroundColor: getMoodColor(entry.mood) + '30',
+                        backgroundColor: getMoodOrFallback(entry.mood).color + '30',
                       }}
                     >
-                      {getMoodEmoji(entry.mood)}
+                      {getMoodOrFallback(entry.mood).emoji}
                     </div>
                   )}
                 </div>
                 <p className="text-[15px] text-[#525252] line-clamp-2 leading-relaxed">
-                  {entry.content}
+                  {markdownExcerpt(entry.content)}
                 </p>
               </motion.button>
             ))}
@@ -2,9 +2,21 @@ import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown, Repeat, BarChart3, Hash, Calendar as CalendarIcon } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import type { JournalEntry } from '../App';
+import { useMoods } from '../context/MoodsContext';
+import { useJournals } from '../context/JournalsContext';
+import { apiFetch } from '../lib/api';
+import { loadInsightCache, saveInsightCache } from '../lib/localStore';
+import { onUserEvent } from '../lib/events';
+import { filterEntriesByTags } from '../lib/tags';
+import { filterEntriesByJournal } from '../lib/journals';
+import { hourInZone, parseDateKey } from '../shared/dates';
+import { TagFilter } from './TagFilter';
+import { JournalSwitcher } from './JournalSwitcher';
 
 interface InsightsProps {
   entries: JournalEntry[];
+  generateOnOpen?: boolean; // Set by the command palette's "Generate weekly insights"
+  onGenerateHandled?: () => void;
 }
 
 interface AIResponse {
@@ -20,7 +32,14 @@ interface AIResponse {
   futureYouMessage?: string;
 }
 
-export function Insights({ entries }: InsightsProps) {
+// The last generated insight, reused for a day
+interface CachedInsight {
+  howYouFelt?: string;
+  aiData: AIResponse | null;
+  timestamp: number;
+}
+
+export function Insights({ entries: allEntries, generateOnOpen, onGenerateHandled }: InsightsProps) {
   const [aiData, setAiData] = useState<AIResponse | null>(null);
   const [howYouFeltText, setHowYouFeltText] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -30,48 +49,61 @@ export function Insights({ entries }: InsightsProps) {
   const [isLoadingFutureYou, setIsLoadingFutureYou] = useState(false);
   const [futureYouError, setFutureYouError] = useState<string | null>(null);
   const futureYouSectionRef = useRef<HTMLDivElement | null>(null);
+  const { getMood, getMoodOrFallback } = useMoods();
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { selectedJournalId, defaultJournal } = useJournals();
+  // The stats below follow the journal and tag filters; AI insights always look at everything
+  const journalEntries = filterEntriesByJournal(allEntries, selectedJournalId, defaultJournal?.id);
+  const entries = filterEntriesByTags(journalEntries, selectedTags);
 
   useEffect(() => {
     // Load cached insight (if fresh)
-    try {
-      const cached = localStorage.getItem('ink_ai_insight');
-      if (cached) {
-        const parsed = JSON.parse(cached);
-        const ageMs = Date.now() - (parsed?.timestamp || 0);
-        if (ageMs < 24 * 60 * 60 * 1000 && parsed?.howYouFelt) {
-          setHowYouFeltText(parsed.howYouFelt);
-          setAiData(parsed?.aiData || null);
-        }
+    let cancelled = false;
+    loadInsightCache<CachedInsight>().then((cached) => {
+      if (cancelled || !cached) return;
+      const ageMs = Date.now() - (cached.timestamp || 0);
+      if (ageMs < 24 * 60 * 60 * 1000 && cached.howYouFelt) {
+        setHowYouFeltText(cached.howYouFelt);
+        setAiData(cached.aiData || null);
       }
-    } catch {
-      // ignore cache errors
-    }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  const fetchAIInsights = async () => {
-    const token = localStorage.getItem('authToken');
+  // Insights generated on another device show up here too
+  useEffect(
+    () =>
+      onUserEvent((event) => {
+        if (event.type !== 'insight.ready') return;
+        const insight = event.insight as AIResponse;
+        if (!insight?.howYouFelt) return;
+        setAiData(insight);
+        setHowYouFeltText(insight.howYouFelt);
+        void saveInsightCache<CachedInsight>({ howYouFelt: insight.howYouFelt, aiData: insight, timestamp: Date.now() });
+      }),
+    []
+  );
 
-    console.log('[Insights] fetchAIInsights started. Entries count:', entries.length);
+  const fetchAIInsights = async () => {
+    console.log('[Insights] fetchAIInsights started. Entries count:', allEntries.length);
     setIsGenerating(true);
     setGenerateError(null);
 
     try {
-      const apiBase = (import.meta as any)?.env?.VITE_API_BASE_URL || '';
-      const apiUrl = apiBase ? `${apiBase}/insights/ai` : '/api/insights/ai';
-      console.log('[Insights] AI request sent to', apiUrl);
-      
-      const headers: Record<string,string> = { 'Content-Type': 'application/json' };
-      if (token) headers['Authorization'] = `Bearer ${token}`;
+      console.log('[Insights] AI request sent to /insights/ai');
 
-      const payloadEntries = entries.map((e) => ({
+      const payloadEntries = allEntries.map((e) => ({
         createdAt: e.date.toISOString(),
+        entryDate: e.entryDate,
+        timeZone: e.timeZone,
         content: e.content,
-        mood: e.mood,
+        mood: getMood(e.mood)?.label.toLowerCase(),
         moodEmoji: e.mood,
       }));
-      const response = await fetch(apiUrl, {
+      const response = await apiFetch('/insights/ai', {
         method: 'POST',
-        headers,
         body: JSON.stringify({ entries: payloadEntries, mode: 'weekly', force: true }),
       });
       console.log('[Insights] AI response received, status:', response.status);
@@ -111,11 +143,7 @@ export function Insights({ entries }: InsightsProps) {
         setAiData(normalizedData);
         setHowYouFeltText(normalizedData.howYouFelt);
         setGenerateError(null);
-        try {
-          localStorage.setItem('ink_ai_insight', JSON.stringify({ howYouFelt: normalizedData.howYouFelt, aiData: normalizedData, timestamp: Date.now() }));
-        } catch {
-          // ignore cache errors
-        }
+        void saveInsightCache<CachedInsight>({ howYouFelt: normalizedData.howYouFelt, aiData: normalizedData, timestamp: Date.now() });
       } else {
         setAiData(null);
         setHowYouFeltText('');
@@ -127,16 +155,18 @@ export function Insights({ entries }: InsightsProps) {
       }
 
       // If backend reports zero entries but there are local entries, retry by posting them
-      if ((normalizedData?.sourceEntryCount === 0 || normalizedData?.sourceEntryCount === undefined) && entries.length > 0) {
+      if ((normalizedData?.sourceEntryCount === 0 || normalizedData?.sourceEntryCount === undefined) && allEntries.length > 0) {
         try {
-          const payloadEntries = entries.map((e) => ({
+          const payloadEntries = allEntries.map((e) => ({
             createdAt: e.date.toISOString(),
+            entryDate: e.entryDate,
+            timeZone: e.timeZone,
             content: e.content,
-            mood: e.mood,
+            mood: getMood(e.mood)?.label.toLowerCase(),
             moodEmoji: e.mood,
           }));
           console.log('[Insights] No backend entries; retrying with localStorage entries, count=', payloadEntries.length);
-          const retryResp = await fetch(apiUrl, { method: 'POST', headers, body: JSON.stringify({ entries: payloadEntries, mode: 'weekly', force: true }) });
+          const retryResp = await apiFetch('/insights/ai', { method: 'POST', body: JSON.stringify({ entries: payloadEntries, mode: 'weekly', force: true }) });
           if (retryResp.ok) {
             const retryData = await retryResp.json();
             console.log('[Insights] Retry AI response:', retryData);
@@ -161,11 +191,7 @@ export function Insights({ entries }: InsightsProps) {
               setAiData(retryNormalizedData);
               setHowYouFeltText(retryNormalizedData.howYouFelt);
               setGenerateError(null);
-              try {
-                localStorage.setItem('ink_ai_insight', JSON.stringify({ howYouFelt: retryNormalizedData.howYouFelt, aiData: retryNormalizedData, timestamp: Date.now() }));
-              } catch {
-                // ignore cache errors
-              }
+              void saveInsightCache<CachedInsight>({ howYouFelt: retryNormalizedData.howYouFelt, aiData: retryNormalizedData, timestamp: Date.now() });
             }
           } else {
             console.warn('[Insights] Retry AI call failed:', retryResp.statusText);
@@ -187,6 +213,12 @@ export function Insights({ entries }: InsightsProps) {
     console.log('[Insights] Generate Insight clicked.');
     fetchAIInsights();
   };
+
+  useEffect(() => {
+    if (!generateOnOpen) return;
+    onGenerateHandled?.();
+    fetchAIInsights();
+  }, [generateOnOpen]);
   // Get mood counts and percentages
   const getMoodCounts = () => {
     const counts: Record<string, number> = {};
@@ -202,45 +234,6 @@ export function Insights({ entries }: InsightsProps) {
   const totalWithMood = Object.values(moodCounts).reduce((a, b) => a + b, 0);
   const dominantMood = Object.entries(moodCounts).sort((a, b) => b[1] - a[1])[0]?.[0];
 
-  const getMoodEmoji = (mood: string) => {
-    const emojis: Record<string, string> = {
-      joy: '😊',
-      calm: '😌',
-      sad: '😔',
-      anxious: '😰',
-      stressed: '🫠',
-      motivated: '💪',
-      grateful: '🙏',
-    };
-    return emojis[mood] || '😐';
-  };
-
-  const getMoodLabel = (mood: string) => {
-    const labels: Record<string, string> = {
-      joy: 'Content',
-      calm: 'Calm',
-      sad: 'Sad',
-      anxious: 'Anxious',
-      stressed: 'Stressed',
-      motivated: 'Motivated',
-      grateful: 'Grateful',
-    };
-    return labels[mood] || mood;
-  };
-
-  const getMoodColor = (mood: string) => {
-    const colors: Record<string, string> = {
-      joy: '#FCD34D',
-      calm: '#93C5FD',
-      sad: '#A5B4FC',
-      anxious: '#FDA4AF',
-      stressed: '#FB923C',
-      motivated: '#86EFAC',
-      grateful: '#DDD6FE',
-    };
-    return colors[mood] || '#D4D4D4';
-  };
-
   // Weekly stats
   const weekEntries = entries.filter((e) => {
     const weekAgo = new Date();
@@ -248,7 +241,7 @@ export function Insights({ entries }: InsightsProps) {
     return e.date >= weekAgo;
   });
 
-  const isNegativeAvg = ['sad', 'anxious', 'stressed'].includes(dominantMood || '');
+  const isNegativeAvg = getMood(dominantMood)?.category === 'negative';
 
   useEffect(() => {
     if (isNegativeAvg) {
@@ -264,23 +257,20 @@ export function Insights({ entries }: InsightsProps) {
   };
 
   const fetchFutureYou = async () => {
-    const token = localStorage.getItem('authToken');
     console.log('[FutureYouToast] Generate clicked');
     setIsLoadingFutureYou(true);
     setFutureYouError(null);
     try {
-      const apiBase = (import.meta as any)?.env?.VITE_API_BASE_URL || '';
-      const apiUrl = apiBase ? `${apiBase}/insights/ai` : '/api/insights/ai';
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (token) headers['Authorization'] = `Bearer ${token}`;
       console.log('[FutureYouToast] API called');
-      const payloadEntries = entries.map((e) => ({
+      const payloadEntries = allEntries.map((e) => ({
         createdAt: e.date.toISOString(),
+        entryDate: e.entryDate,
+        timeZone: e.timeZone,
         content: e.content,
-        mood: e.mood,
+        mood: getMood(e.mood)?.label.toLowerCase(),
         moodEmoji: e.mood,
       }));
-      const response = await fetch(apiUrl, { method: 'POST', headers, body: JSON.stringify({ entries: payloadEntries, mode: 'future_you', force: true }) });
+      const response = await apiFetch('/insights/ai', { method: 'POST', body: JSON.stringify({ entries: payloadEntries, mode: 'future_you', force: true }) });
       const data = await response.json();
       const futureText = typeof data?.futureYouMessage === 'string' ? data.futureYouMessage : '';
       if (response.ok && futureText) {
@@ -328,20 +318,20 @@ export function Insights({ entries }: InsightsProps) {
     };
   };
 
-  // Most common writing day/time
+  // Most common writing day/time: the day an entry is for, and the hour it was written where it was written
   const getDayName = (date: Date) => {
     return date.toLocaleDateString('en-US', { weekday: 'long' });
   };
 
   const dayFrequency: Record<string, number> = {};
   entries.forEach(entry => {
-    const day = getDayName(entry.date);
+    const day = getDayName(parseDateKey(entry.entryDate));
     dayFrequency[day] = (dayFrequency[day] || 0) + 1;
   });
 
   const mostCommonDay = Object.entries(dayFrequency).sort((a, b) => b[1] - a[1])[0]?.[0] || 'Tuesday';
   const avgHour = entries.length > 0 
-    ? Math.round(entries.reduce((sum, e) => sum + e.date.getHours(), 0) / entries.length)
+    ? Math.round(entries.reduce((sum, e) => sum + hourInZone(e.createdAt, e.timeZone), 0) / entries.length)
     : 20;
 
   // Extract themes from actual entry content
@@ -395,6 +385,9 @@ export function Insights({ entries }: InsightsProps) {
         Insights
       </h1>
 
+      <JournalSwitcher className="mb-2 -mx-4 px-4" />
+      <TagFilter entries={journalEntries} selected={selectedTags} onChange={setSelectedTags} className="mb-4 -mx-4 px-4" />
+
       <div className="space-y-4">
         {entries.length === 0 && (
           <motion.div
@@ -432,7 +425,7 @@ export function Insights({ entries }: InsightsProps) {
               className="flex items-center gap-2 text-left active:opacity-70 transition-opacity"
             >
               <span className="text-[15px] text-[#525252]">Avg mood:</span>
-              <span className="text-xl">{dominantMood ? getMoodEmoji(dominantMood) : '😐'}</span>
+              <span className="text-xl">{getMoodOrFallback(dominantMood).emoji}</span>
             </button>
             <div className="text-[15px] text-[#525252]">
               Most written: <span className="font-semibold text-[#171717]">{mostCommonDay} evenings</span>
@@ -530,8 +523,8 @@ export function Insights({ entries }: InsightsProps) {
                 <div key={mood} className="space-y-2">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
-                      <span className="text-lg">{getMoodEmoji(mood)}</span>
-                      <span className="text-[15px] font-medium text-[#171717]">{getMoodLabel(mood)}</span>
+                      <span className="text-lg">{getMoodOrFallback(mood).emoji}</span>
+                      <span className="text-[15px] font-medium text-[#171717]">{getMood(mood)?.label ?? mood}</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <span className="text-[15px] text-[#525252]">{percentage}%</span>
@@ -552,7 +545,7 @@ export function Insights({ entries }: InsightsProps) {
                       animate={{ width: `${percentage}%` }}
                       transition={{ delay: 0.3, duration: 0.6, ease: 'easeOut' }}
                       className="h-full rounded-full"
-                      style={{ backgroundColor: getMoodColor(mood) + '99' }} // 60% opacity
+                      style={{ backgroundColor: getMoodOrFallback(mood).color + '99' }} // 60% opacity
                     />
                   </div>
                 </div>
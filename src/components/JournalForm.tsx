@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { JOURNAL_COLORS, JOURNAL_ICONS, MAX_JOURNAL_NAME_LENGTH, type Journal, type JournalIcon as JournalIconName } from '../shared/journals';
+import { useJournals } from '../context/JournalsContext';
+import { JournalIcon } from './JournalIcon';
+
+interface JournalFormProps {
+  journal?: Journal; // Edits this journal instead of creating one
+  onSaved: (journal: Journal) => void;
+  onCancel: () => void;
+}
+
+export function JournalForm({ journal, onSaved, onCancel }: JournalFormProps) {
+  const { createJournal, updateJournal } = useJournals();
+  const [name, setName] = useState(journal?.name ?? '');
+  const [color, setColor] = useState(journal?.color ?? JOURNAL_COLORS[1]);
+  const [icon, setIcon] = useState<JournalIconName>(journal?.icon ?? 'book');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const input = { name: name.trim(), color, icon };
+      onSaved(journal ? await updateJournal(journal.id, input) : await createJournal(input));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t save journal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      transition={{ duration: 0.2 }}
+      className="px-4 py-4 border border-[#E5E5E5] rounded-lg bg-[#FAFAF9] space-y-4"
+    >
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Journal name"
+        maxLength={MAX_JOURNAL_NAME_LENGTH}
+        aria-label="Journal name"
+        autoFocus
+        className="w-full h-11 px-3 text-[15px] bg-[#FFFFFF] border border-[#E5E5E5] rounded-lg outline-none"
+      />
+
+      <div className="flex gap-2">
+        {JOURNAL_COLORS.map((option) => (
+          <button
+            key={option}
+            onClick={() => setColor(option)}
+            aria-label={`Color ${option}`}
+            className="w-7 h-7 rounded-full border-2 transition-all"
+            style={{ backgroundColor: option, borderColor: color === option ? '#525252' : 'transparent' }}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-1.5">
+        {JOURNAL_ICONS.map((option) => (
+          <button
+            key={option}
+            onClick={() => setIcon(option)}
+            aria-label={`Icon ${option}`}
+            className={`flex-1 h-9 rounded-lg flex items-center justify-center transition-all ${
+              icon === option ? 'bg-[#171717] text-[#FAFAF9]' : 'bg-[#F5F5F4] text-[#525252]'
+            }`}
+          >
+            <JournalIcon icon={option} />
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="text-[15px] text-[#525252] font-medium px-3 py-2">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim()}
+          className="text-[15px] bg-[#171717] text-[#FAFAF9] font-medium px-4 py-2 rounded-lg disabled:opacity-30"
+        >
+          {isSaving ? 'Saving…' : journal ? 'Save' : 'Add Journal'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Book, Briefcase, Coffee, Heart, Leaf, Moon, Star, Sun, type LucideIcon } from 'lucide-react';
+import type { JournalIcon as JournalIconName } from '../shared/journals';
+
+const ICONS: Record<JournalIconName, LucideIcon> = {
+  book: Book,
+  briefcase: Briefcase,
+  moon: Moon,
+  heart: Heart,
+  sun: Sun,
+  star: Star,
+  leaf: Leaf,
+  coffee: Coffee,
+};
+
+interface JournalIconProps {
+  icon: JournalIconName;
+  color?: string;
+  className?: string;
+}
+
+export function JournalIcon({ icon, color, className = 'w-4 h-4' }: JournalIconProps) {
+  // Journals synced from a newer app version may use an icon this one doesn't know
+  const Icon = ICONS[icon] ?? Book;
+  return <Icon className={className} style={color ? { color } : undefined} strokeWidth={2} />;
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { Plus } from 'lucide-react';
+import { useJournals } from '../context/JournalsContext';
+import { JournalForm } from './JournalForm';
+import { JournalIcon } from './JournalIcon';
+
+interface JournalSwitcherProps {
+  // Offers "+" to create a journal in place
+  allowCreate?: boolean;
+  className?: string;
+}
+
+export function JournalSwitcher({ allowCreate = false, className = '' }: JournalSwitcherProps) {
+  const { journals, selectedJournalId, selectJournal } = useJournals();
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Guests write in a single journal; a lone journal only needs the switcher to make a second
+  if (journals.length === 0 || (journals.length === 1 && !allowCreate)) return null;
+
+  const chipClass = (active: boolean) =>
+    `h-8 px-3 rounded-full text-[13px] font-medium whitespace-nowrap flex items-center gap-1.5 transition-colors ${
+      active ? 'bg-[#171717] text-[#FAFAF9]' : 'bg-[#F5F5F4] text-[#525252]'
+    }`;
+
+  return (
+    <div className={className}>
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {journals.length > 1 && (
+          <button onClick={() => selectJournal(null)} className={chipClass(selectedJournalId === null)}>
+            All
+          </button>
+        )}
+        {journals.map((journal) => {
+          const active = selectedJournalId === journal.id;
+          return (
+            <button key={journal.id} onClick={() => selectJournal(journal.id)} className={chipClass(active)}>
+              <JournalIcon icon={journal.icon} color={active ? undefined : journal.color} className="w-3.5 h-3.5" />
+              {journal.name}
+            </button>
+          );
+        })}
+        {allowCreate && (
+          <button
+            onClick={() => setIsCreating((open) => !open)}
+            aria-label="New journal"
+            className="h-8 w-8 flex-shrink-0 rounded-full bg-[#F5F5F4] text-[#525252] flex items-center justify-center"
+          >
+            <Plus className="w-4 h-4" strokeWidth={2} />
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {isCreating && (
+          <JournalForm
+            onSaved={(journal) => {
+              selectJournal(journal.id);
+              setIsCreating(false);
+            }}
+            onCancel={() => setIsCreating(false)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ChevronLeft } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import type { Journal } from '../shared/journals';
+import { useJournals } from '../context/JournalsContext';
+import { JournalForm } from './JournalForm';
+import { JournalIcon } from './JournalIcon';
+
+interface JournalsProps {
+  onBack: () => void;
+}
+
+export function Journals({ onBack }: JournalsProps) {
+  const { journals, defaultJournal, updateJournal, deleteJournal } = useJournals();
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<Journal | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMakeDefault = async (id: string) => {
+    setError(null);
+    try {
+      await updateJournal(id, { isDefault: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t change the default journal');
+    }
+  };
+
+  // Not an AlertDialogAction: that would close the dialog before the delete has gone through
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await deleteJournal(deleting.id);
+      setDeleting(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t delete journal');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const entryCountLabel = (count?: number) =>
+    count === undefined ? '' : `${count} ${count === 1 ? 'entry' : 'entries'}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="min-h-screen bg-[#FFFFFF]"
+    >
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-[#E5E5E5] flex items-center">
+        <button onClick={onBack} className="flex items-center gap-1 -ml-2">
+          <ChevronLeft className="w-6 h-6 text-[#171717]" strokeWidth={2} />
+          <span className="text-[17px] text-[#171717]">Profile</span>
+        </button>
+      </div>
+
+      <div className="px-5 py-6 space-y-4">
+        <h3 className="text-[13px] font-semibold text-[#525252] uppercase">Journals</h3>
+
+        {error && !deleting && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+
+        {journals.length === 0 && <p className="text-[15px] text-[#A3A3A3]">Loading…</p>}
+
+        {journals.length > 0 && (
+          <div className="bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg overflow-hidden">
+            {journals.map((journal, index) => (
+              <div key={journal.id} style={{ borderBottom: index < journals.length - 1 ? '1px solid #E5E5E5' : 'none' }}>
+                <div className="flex items-center gap-3 px-4 py-4">
+                  <JournalIcon icon={journal.icon} color={journal.color} className="w-5 h-5 flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-[17px] text-[#171717] truncate">{journal.name}</p>
+                    <p className="text-[13px] text-[#525252]">
+                      {[journal.isDefault ? 'Default' : '', entryCountLabel(journal.entryCount)].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    {!journal.isDefault && (
+                      <button
+                        onClick={() => handleMakeDefault(journal.id)}
+                        className="text-[15px] text-[#525252] font-medium hover:opacity-70 transition-opacity"
+                      >
+                        Make Default
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditingId(editingId === journal.id ? null : journal.id)}
+                      className="text-[15px] text-[#171717] font-medium hover:opacity-70 transition-opacity"
+                    >
+                      Edit
+                    </button>
+                    {!journal.isDefault && (
+                      <button
+                        onClick={() => setDeleting(journal)}
+                        className="text-[15px] text-[#FF3B30] font-medium hover:opacity-70 transition-opacity"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <AnimatePresence>
+                  {editingId === journal.id && (
+                    <div className="px-4 pb-4">
+                      <JournalForm journal={journal} onSaved={() => setEditingId(null)} onCancel={() => setEditingId(null)} />
+                    </div>
+                  )}
+                </AnimatePresence>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <AnimatePresence>
+          {editingId === 'new' && <JournalForm onSaved={() => setEditingId(null)} onCancel={() => setEditingId(null)} />}
+        </AnimatePresence>
+
+        {editingId !== 'new' && journals.length > 0 && (
+          <button
+            onClick={() => setEditingId('new')}
+            className="w-full h-12 border border-[#E5E5E5] rounded-lg text-[15px] text-[#171717] font-medium hover:bg-[#F5F5F4] transition-colors"
+          >
+            New Journal
+          </button>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open: boolean) => !open && !isDeleting && setDeleting(null)}>
+        <AlertDialogContent className="bg-[#FFFFFF] border-[#E5E5E5] max-w-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-[20px] text-[#171717]">Delete “{deleting?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription className="text-[15px] text-[#525252] leading-relaxed">
+              Its entries aren’t deleted. They move to {defaultJournal ? `“${defaultJournal.name}”` : 'your default journal'}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {error && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting} className="text-[15px]">
+              Cancel
+            </AlertDialogCancel>
+            <button
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="h-9 px-4 rounded-md bg-[#FF3B30] text-[#FFFFFF] text-[15px] font-medium disabled:opacity-30"
+            >
+              {isDeleting ? 'Deleting…' : 'Delete Journal'}
+            </button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
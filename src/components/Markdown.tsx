@@ -0,0 +1,109 @@
+import { Fragment, useMemo } from 'react';
+import { Check } from 'lucide-react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../shared/markdown';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Everything is rendered as React elements from the parsed tree, never as HTML, so entry text can't inject markup
+function renderInline(nodes: MarkdownInline[]) {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return node.href ? (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 decoration-[#A3A3A3] hover:decoration-[#171717]"
+          >
+            {renderInline(node.children)}
+          </a>
+        ) : (
+          <Fragment key={index}>{renderInline(node.children)}</Fragment>
+        );
+    }
+  });
+}
+
+const headingClassNames = {
+  1: 'text-[24px] font-bold',
+  2: 'text-[20px] font-semibold',
+  3: 'text-[17px] font-semibold',
+};
+
+function renderBlocks(blocks: MarkdownBlock[]) {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level + 1}` as 'h2' | 'h3' | 'h4'; // The page title is the entry's date
+        return (
+          <Heading key={index} className={`${headingClassNames[block.level]} text-[#171717] leading-snug`}>
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case 'paragraph':
+        return (
+          <p key={index} className="whitespace-pre-wrap">
+            {renderInline(block.children)}
+          </p>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="pl-4 border-l-2 border-[#E5E5E5] text-[#525252] space-y-3">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const isChecklist = block.items.some((item) => item.checked !== undefined);
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List
+            key={index}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={`space-y-1 ${isChecklist ? '' : block.ordered ? 'list-decimal pl-6' : 'list-disc pl-6'}`}
+          >
+            {block.items.map((item, itemIndex) =>
+              item.checked === undefined ? (
+                <li key={itemIndex} className="whitespace-pre-wrap">
+                  {renderInline(item.children)}
+                </li>
+              ) : (
+                <li key={itemIndex} className="flex items-start gap-2.5">
+                  <span
+                    role="checkbox"
+                    aria-checked={item.checked}
+                    aria-readonly
+                    className={`mt-[5px] w-[18px] h-[18px] flex-shrink-0 rounded border flex items-center justify-center ${
+                      item.checked ? 'bg-[#171717] border-[#171717]' : 'border-[#D4D4D4]'
+                    }`}
+                  >
+                    {item.checked && <Check className="w-3 h-3 text-[#FAFAF9]" strokeWidth={3} />}
+                  </span>
+                  <span className={`whitespace-pre-wrap ${item.checked ? 'text-[#A3A3A3] line-through' : ''}`}>
+                    {renderInline(item.children)}
+                  </span>
+                </li>
+              )
+            )}
+          </List>
+        );
+      }
+    }
+  });
+}
+
+export function Markdown({ content, className = '' }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={`space-y-4 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+}
@@ -1,24 +1,40 @@
-import { useState, useEffect, useRef } from 'react';
-import { motion } from 'framer-motion';
-import { X, Check, Image as ImageIcon } from 'lucide-react';
-import type { JournalEntry } from '../App';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  Check,
+  Plus,
+  Hash,
+  Image as ImageIcon,
+  Heading,
+  Bold,
+  Italic,
+  List,
+  ListOrdered,
+  ListChecks,
+  TextQuote,
+  Link,
+  Eye,
+  PenLine,
+  type LucideIcon,
+} from 'lucide-react';
+import type { JournalEntry, NewJournalEntry } from '../App';
+import { useMoods } from '../context/MoodsContext';
+import { useSettings } from '../context/SettingsContext';
+import { extractHashtags } from '../shared/tags';
+import { MAX_ENTRY_LENGTH } from '../shared/markdown';
+import { createPhotoUrl } from '../lib/localStore';
+import { applyMarkdownFormat, type MarkdownFormat } from '../lib/markdown';
+import { useShortcuts } from '../lib/shortcuts';
+import { CustomMoodForm } from './CustomMoodForm';
+import { Markdown } from './Markdown';
 
 interface NewEntryProps {
-  onSave: (entry: Omit<JournalEntry, 'id' | 'createdAt'>) => void;
+  onSave: (entry: NewJournalEntry) => void;
   onCancel: () => void;
   existingEntry?: JournalEntry;
 }
 
-const moods = [
-  { id: 'joy', label: 'Joy', emoji: '😊', color: '#FCD34D' },
-  { id: 'calm', label: 'Calm', emoji: '😌', color: '#93C5FD' },
-  { id: 'sad', label: 'Sad', emoji: '😔', color: '#A5B4FC' },
-  { id: 'anxious', label: 'Anxious', emoji: '😰', color: '#FDA4AF' },
-  { id: 'stressed', label: 'Stressed', emoji: '🫠', color: '#FB923C' },
-  { id: 'motivated', label: 'Motivated', emoji: '💪', color: '#86EFAC' },
-  { id: 'grateful', label: 'Grateful', emoji: '🙏', color: '#DDD6FE' },
-] as const;
-
 const journalPrompts = [
   "What are you most proud of today?",
   "What's currently on your mind?",
@@ -32,13 +48,31 @@ const journalPrompts = [
   "What's one thing you'd like to let go of?",
 ];
 
+const formatButtons: { format: MarkdownFormat; label: string; icon: LucideIcon }[] = [
+  { format: 'heading', label: 'Heading', icon: Heading },
+  { format: 'bold', label: 'Bold', icon: Bold },
+  { format: 'italic', label: 'Italic', icon: Italic },
+  { format: 'bullet', label: 'Bulleted list', icon: List },
+  { format: 'numbered', label: 'Numbered list', icon: ListOrdered },
+  { format: 'checkbox', label: 'Checklist', icon: ListChecks },
+  { format: 'quote', label: 'Quote', icon: TextQuote },
+  { format: 'link', label: 'Link', icon: Link },
+];
+
 export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
   const [content, setContent] = useState(existingEntry?.content || '');
-  const [selectedMood, setSelectedMood] = useState<'joy' | 'calm' | 'sad' | 'anxious' | 'stressed' | 'motivated' | 'grateful' | undefined>(existingEntry?.mood);
+  const [selectedMood, setSelectedMood] = useState<string | undefined>(existingEntry?.mood);
   const [photos, setPhotos] = useState<string[]>(existingEntry?.photos || []);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const { settings } = useSettings();
   const [currentPrompt] = useState(() => journalPrompts[Math.floor(Math.random() * journalPrompts.length)]);
+  const [isAddingMood, setIsAddingMood] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Tags are picked up from #hashtags as you type and created when the entry is saved
+  const detectedTags = useMemo(() => extractHashtags(content), [content]);
+  const { moods } = useMoods();
 
   // Autosave simulation
   useEffect(() => {
@@ -53,17 +87,34 @@ export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
   const handlePhotoAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files) {
-      // Convert files to data URLs (in a real app, upload to server)
-      Array.from(files).forEach(file => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          setPhotos(prev => [...prev, reader.result as string]);
-        };
-        reader.readAsDataURL(file);
-      });
+      // The files themselves are kept as blobs when the entry is saved
+      const urls = Array.from(files).map((file) => createPhotoUrl(file));
+      setPhotos(prev => [...prev, ...urls]);
     }
   };
 
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = applyMarkdownFormat(
+      { value: content, start: textarea.selectionStart, end: textarea.selectionEnd },
+      format
+    );
+    setContent(next.value);
+    // The new text has to be rendered before the selection can be put back
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.start, next.end);
+    });
+  };
+
+  // Scoped to the textarea (data-shortcut-scope), so they only fire while writing
+  useShortcuts({
+    bold: () => handleFormat('bold'),
+    italic: () => handleFormat('italic'),
+    link: () => handleFormat('link'),
+  });
+
   const handleRemovePhoto = (index: number) => {
     setPhotos(photos.filter((_, i) => i !== index));
   };
@@ -119,7 +170,7 @@ export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.1, duration: 0.2 }}
-        className="flex justify-center gap-2.5 px-5 py-6 border-b border-[#E5E5E5] overflow-x-auto"
+        className="flex flex-wrap justify-center gap-2.5 px-5 py-6 border-b border-[#E5E5E5]"
       >
         {moods.map((mood) => (
           <motion.button
@@ -128,6 +179,7 @@ export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
             whileTap={{ scale: 0.9 }}
             animate={{ scale: selectedMood === mood.id ? 1.1 : 1 }}
             className="w-11 h-11 rounded-full flex items-center justify-center text-xl transition-all border flex-shrink-0"
+            aria-label={mood.label}
             style={{
               backgroundColor: selectedMood === mood.id ? mood.color + '20' : 'transparent',
               borderColor: selectedMood === mood.id ? mood.color : '#E5E5E5',
@@ -136,8 +188,28 @@ export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
             {mood.emoji}
           </motion.button>
         ))}
+        <motion.button
+          onClick={() => setIsAddingMood(!isAddingMood)}
+          whileTap={{ scale: 0.9 }}
+          className="w-11 h-11 rounded-full flex items-center justify-center border border-dashed border-[#D4D4D4] flex-shrink-0"
+          aria-label="Add custom mood"
+        >
+          <Plus className="w-5 h-5 text-[#A3A3A3]" strokeWidth={2} />
+        </motion.button>
       </motion.div>
 
+      <AnimatePresence>
+        {isAddingMood && (
+          <CustomMoodForm
+            onCreated={(mood) => {
+              setSelectedMood(mood.id);
+              setIsAddingMood(false);
+            }}
+            onCancel={() => setIsAddingMood(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Writing Area */}
       <div className="flex-1 px-5 py-6">
         <motion.div
@@ -145,13 +217,68 @@ export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
           animate={{ opacity: 1 }}
           transition={{ delay: 0.15, duration: 0.3 }}
         >
-          <textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder=""
-            className="w-full min-h-[400px] bg-transparent border-none outline-none resize-none text-[17px] leading-[1.7] text-[#171717] placeholder:text-[#A3A3A3]"
-            autoFocus
-          />
+          {/* Formatting Toolbar */}
+          <div className="flex items-center gap-1 -mx-2 mb-3 overflow-x-auto">
+            {formatButtons.map(({ format, label, icon: Icon }) => (
+              <button
+                key={format}
+                // Keeps the textarea's selection, which a focus change would lose
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleFormat(format)}
+                disabled={isPreviewing}
+                className="w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-lg text-[#525252] hover:bg-[#F5F5F4] transition-colors disabled:opacity-30"
+                aria-label={label}
+                title={label}
+              >
+                <Icon className="w-[18px] h-[18px]" strokeWidth={2} />
+              </button>
+            ))}
+            <button
+              onClick={() => setIsPreviewing(!isPreviewing)}
+              className={`ml-auto h-9 px-3 flex-shrink-0 flex items-center gap-1.5 rounded-lg text-[13px] font-medium transition-colors ${
+                isPreviewing ? 'bg-[#171717] text-[#FAFAF9]' : 'text-[#525252] hover:bg-[#F5F5F4]'
+              }`}
+              aria-pressed={isPreviewing}
+            >
+              {isPreviewing ? <PenLine className="w-4 h-4" strokeWidth={2} /> : <Eye className="w-4 h-4" strokeWidth={2} />}
+              {isPreviewing ? 'Write' : 'Preview'}
+            </button>
+          </div>
+
+          {isPreviewing ? (
+            <div className="min-h-[400px]">
+              {content.trim() ? (
+                <Markdown content={content} className="text-[17px] leading-[1.7] text-[#171717]" />
+              ) : (
+                <p className="text-[17px] text-[#A3A3A3]">Nothing to preview yet.</p>
+              )}
+            </div>
+          ) : (
+            <textarea
+              ref={textareaRef}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              data-shortcut-scope="editor"
+              maxLength={MAX_ENTRY_LENGTH}
+              placeholder=""
+              className="w-full min-h-[400px] bg-transparent border-none outline-none resize-none text-[17px] leading-[1.7] text-[#171717] placeholder:text-[#A3A3A3]"
+              autoFocus
+            />
+          )}
+
+          {detectedTags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {detectedTags.map((tag) => (
+                <span
+                  key={tag}
+                  className="h-7 px-2.5 rounded-full bg-[#F5F5F4] text-[13px] font-medium text-[#525252] flex items-center gap-0.5"
+                >
+                  <Hash className="w-3.5 h-3.5" strokeWidth={2} />
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
 
           {/* Photos Grid */}
           {photos.length > 0 && (
@@ -193,7 +320,7 @@ export function NewEntry({ onSave, onCancel, existingEntry }: NewEntryProps) {
         {/* Journal Prompt */}
         <div className="text-center py-2">
           <p className="text-[13px] text-[#A3A3A3] italic">
-            Write freely.
+            {settings.showPrompts ? currentPrompt : 'Write freely.'}
           </p>
         </div>
       </div>
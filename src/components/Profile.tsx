@@ -1,25 +1,99 @@
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useSync } from '../context/SyncContext';
+import { SETTING_LABELS, useSettings, type SettingKey } from '../context/SettingsContext';
+import { Sessions } from './Sessions';
+import { Journals } from './Journals';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { DataStorage } from './DataStorage';
+import { DeleteAccountDialog } from './DeleteAccountDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
 
 interface ProfileProps {
   onBack: () => void;
 }
 
+interface ListItem {
+  label: string;
+  value?: string;
+  onClick?: () => void;
+}
+
+type ProfilePanel = 'sessions' | 'two-factor' | 'data' | 'journals';
+
+const getInitials = (name: string) =>
+  name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+
 export function Profile({ onBack }: ProfileProps) {
-  const listSections = [
+  const { status, user, logout, resendVerification } = useAuth();
+  const { settings, toggleSetting } = useSettings();
+  const isGuest = status === 'guest' || !user;
+  const displayName = user?.name || user?.email.split('@')[0] || 'Guest';
+  const [panel, setPanel] = useState<ProfilePanel | null>(null);
+  const { pendingCount } = useSync();
+  const [confirmSignOut, setConfirmSignOut] = useState(false);
+  const [verificationState, setVerificationState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  const handleResendVerification = async () => {
+    if (verificationState === 'sending' || verificationState === 'sent') return;
+    setVerificationState('sending');
+    try {
+      await resendVerification();
+      setVerificationState('sent');
+    } catch {
+      setVerificationState('failed');
+    }
+  };
+
+  const verificationLabels = { idle: 'Resend link', sending: 'Sending…', sent: 'Check your inbox', failed: 'Try again' };
+
+  const listSections: { title: string; items: ListItem[] }[] = [
     { 
       title: 'Account', 
-      items: [
-        { label: 'Name', value: 'Team Ink' },
-        { label: 'Email', value: 'team@ink.com' },
-      ]
+      items: isGuest
+        ? [{ label: 'Account', value: 'Not signed in' }]
+        : [
+            { label: 'Name', value: user.name || '—' },
+            { label: 'Email', value: user.email },
+            ...(user.emailVerified === false
+              ? [{ label: 'Verify Email', value: verificationLabels[verificationState], onClick: handleResendVerification }]
+              : []),
+            {
+              label: 'Two-Factor Authentication',
+              value: user.twoFactorEnabled ? 'On' : 'Off',
+              onClick: () => setPanel('two-factor'),
+            },
+            { label: 'Signed-in Devices', onClick: () => setPanel('sessions') },
+          ]
     },
     { 
       title: 'Settings', 
       items: [
         { label: 'Notifications' },
         { label: 'Privacy' },
-        { label: 'Data & Storage' },
+        ...(Object.keys(SETTING_LABELS) as SettingKey[]).map((key) => ({
+          label: SETTING_LABELS[key],
+          value: settings[key] ? 'On' : 'Off',
+          onClick: () => toggleSetting(key),
+        })),
+        ...(isGuest ? [] : [{ label: 'Journals', onClick: () => setPanel('journals') }]),
+        { label: 'Data & Storage', onClick: () => setPanel('data') },
       ]
     },
     { 
@@ -32,6 +106,22 @@ export function Profile({ onBack }: ProfileProps) {
     },
   ];
 
+  if (panel === 'sessions') {
+    return <Sessions onBack={() => setPanel(null)} />;
+  }
+
+  if (panel === 'two-factor') {
+    return <TwoFactorSettings onBack={() => setPanel(null)} />;
+  }
+
+  if (panel === 'journals') {
+    return <Journals onBack={() => setPanel(null)} />;
+  }
+
+  if (panel === 'data') {
+    return <DataStorage onBack={() => setPanel(null)} />;
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -54,12 +144,12 @@ export function Profile({ onBack }: ProfileProps) {
       {/* Avatar Section */}
       <div className="px-5 py-8 text-center border-b border-[#E5E5E5]">
         <div className="w-24 h-24 rounded-full bg-[#F5F5F4] border-2 border-[#E5E5E5] mx-auto mb-4 flex items-center justify-center">
-          <span className="text-[32px] font-semibold text-[#A3A3A3]">TI</span>
+          <span className="text-[32px] font-semibold text-[#A3A3A3]">{getInitials(displayName) || '?'}</span>
         </div>
         <h2 className="text-[22px] font-semibold text-[#171717] mb-1">
-          Team Ink
+          {displayName}
         </h2>
-        <p className="text-[15px] text-[#525252]">team@ink.com</p>
+        <p className="text-[15px] text-[#525252]">{isGuest ? 'Journaling on this device only' : user.email}</p>
       </div>
 
       {/* Sections */}
@@ -81,6 +171,7 @@ export function Profile({ onBack }: ProfileProps) {
               {section.items.map((item, itemIndex) => (
                 <button
                   key={item.label}
+                  onClick={item.onClick}
                   className="w-full flex items-center justify-between px-4 py-4 hover:bg-[#F5F5F4] transition-colors"
                   style={{
                     borderBottom: itemIndex < section.items.length - 1 ? '1px solid #E5E5E5' : 'none',
@@ -102,9 +193,44 @@ export function Profile({ onBack }: ProfileProps) {
 
       {/* Sign Out Button */}
       <div className="px-5 py-8 text-center border-t border-[#E5E5E5]">
-        <button className="text-[17px] text-[#FF3B30] font-medium hover:opacity-70 transition-opacity">
-          Sign Out
-        </button>
+        {isGuest ? (
+          <button
+            onClick={logout}
+            className="text-[17px] text-[#007AFF] font-medium hover:opacity-70 transition-opacity"
+          >
+            Sign In or Create Account
+          </button>
+        ) : (
+          <button
+            // Signing out removes the journal from this device, so changes not yet sent would be lost
+            onClick={() => (pendingCount > 0 ? setConfirmSignOut(true) : logout())}
+            className="text-[17px] text-[#FF3B30] font-medium hover:opacity-70 transition-opacity"
+          >
+            Sign Out
+          </button>
+        )}
+        <AlertDialog open={confirmSignOut} onOpenChange={setConfirmSignOut}>
+          <AlertDialogContent className="bg-[#FFFFFF] border-[#E5E5E5] max-w-sm">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-[20px] text-[#171717]">Sign out without syncing?</AlertDialogTitle>
+              <AlertDialogDescription className="text-[15px] text-[#525252] leading-relaxed">
+                {pendingCount === 1 ? '1 change hasn’t' : `${pendingCount} changes haven’t`} reached your account yet.
+                Signing out removes your journal from this device, and those changes with it.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel className="text-[15px]">Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={logout} className="text-[15px] bg-[#FF3B30] hover:bg-[#FF3B30]/90">
+                Sign Out
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        {!isGuest && (
+          <div className="mt-6">
+            <DeleteAccountDialog />
+          </div>
+        )}
       </div>
     </motion.div>
   );
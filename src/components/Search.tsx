@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Search as SearchIcon, WifiOff, X } from 'lucide-react';
+import type { JournalEntry } from '../App';
+import { EntryDetail } from './EntryDetail';
+import { useMoods } from '../context/MoodsContext';
+import { useAuth } from '../context/AuthContext';
+import { ApiError, apiRequest } from '../lib/api';
+import { searchLocalEntries, splitHighlights, type SearchHit } from '../lib/search';
+import { entryDisplayDate } from '../lib/sync';
+import { localDateKey } from '../shared/dates';
+
+interface SearchProps {
+  entries: JournalEntry[];
+  onUpdateEntry?: (entry: JournalEntry) => void;
+  onDeleteEntry?: (entry: JournalEntry) => () => void;
+}
+
+type DateRange = 'week' | 'month' | 'year';
+
+interface ServerSearchEntry {
+  id: string;
+  journalId: string;
+  content: string;
+  moodEmoji: string | null;
+  tags: { id: string; name: string }[];
+  entryDate: string;
+  timeZone: string;
+  createdAt: string;
+  version: number;
+  snippet: string;
+}
+
+const DEBOUNCE_MS = 300;
+
+const dateRanges: { id: DateRange; label: string; days: number }[] = [
+  { id: 'week', label: 'Past week', days: 7 },
+  { id: 'month', label: 'Past month', days: 30 },
+  { id: 'year', label: 'Past year', days: 365 },
+];
+
+const rangeStart = (range: DateRange | null) => {
+  const days = dateRanges.find((r) => r.id === range)?.days;
+  return days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+};
+
+export function Search({ entries, onUpdateEntry, onDeleteEntry }: SearchProps) {
+  const { token } = useAuth();
+  const { moods, getMoodOrFallback } = useMoods();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedMoods, setSelectedMoods] = useState<string[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange | null>(null);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Server results are matched back to the local copy when possible so edits go through the usual path
+  const toJournalEntry = useMemo(() => {
+    const byId = new Map(entries.map((entry) => [entry.id, entry]));
+    return (result: ServerSearchEntry): JournalEntry => {
+      const createdAt = new Date(result.createdAt);
+      const entryDate = result.entryDate.slice(0, 10);
+      return (
+        byId.get(result.id) ?? {
+          id: result.id,
+          date: entryDisplayDate(createdAt, entryDate),
+          entryDate,
+          timeZone: result.timeZone,
+          journalId: result.journalId,
+          content: result.content,
+          mood: result.moodEmoji ?? undefined,
+          tags: result.tags.map((tag) => tag.name),
+          createdAt,
+          // Edits of the result are conditional on the version that was found, like any other
+          version: result.version,
+        }
+      );
+    };
+  }, [entries]);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setHits([]);
+      setIsOffline(false);
+      return;
+    }
+    const filters = { moods: selectedMoods, from: rangeStart(dateRange) };
+    const searchLocally = () => setHits(searchLocalEntries(entries, debouncedQuery, filters));
+
+    // Guests only have the device copy
+    if (!token) {
+      searchLocally();
+      return;
+    }
+
+    let cancelled = false;
+    const params = new URLSearchParams({ q: debouncedQuery, limit: '50' });
+    if (selectedMoods.length) params.set('mood', selectedMoods.join(','));
+    if (filters.from) params.set('from', localDateKey(filters.from));
+
+    setIsSearching(true);
+    apiRequest<{ entries: ServerSearchEntry[] }>(`/entries?${params.toString()}`)
+      .then((data) => {
+        if (cancelled) return;
+        setIsOffline(false);
+        setHits(data.entries.map((result) => ({ entry: toJournalEntry(result), snippet: result.snippet })));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        // An ApiError means the server answered; anything else means we couldn't reach it
+        if (!(err instanceof ApiError) || err.status >= 500) {
+          setIsOffline(true);
+          searchLocally();
+        } else {
+          console.error('Search failed:', err);
+          setHits([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, selectedMoods, dateRange, token, entries, toJournalEntry]);
+
+  const toggleMood = (id: string) => {
+    setSelectedMoods((prev) => (prev.includes(id) ? prev.filter((m) => m !== id) : [...prev, id]));
+  };
+
+  const handleUpdateEntry = (updatedEntry: JournalEntry) => {
+    onUpdateEntry?.(updatedEntry);
+    setSelectedEntry(null);
+  };
+
+  if (selectedEntry) {
+    return (
+      <EntryDetail
+        entry={selectedEntry}
+        onBack={() => setSelectedEntry(null)}
+        onUpdate={handleUpdateEntry}
+        onDelete={onDeleteEntry}
+      />
+    );
+  }
+
+  const chipClassName = (active: boolean) =>
+    `h-8 px-3 rounded-full text-[13px] font-medium whitespace-nowrap transition-colors ${
+      active ? 'bg-[#171717] text-[#FAFAF9]' : 'bg-[#F5F5F4] text-[#525252]'
+    }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="min-h-screen px-5 pt-4 pb-6"
+    >
+      <h1 className="text-[28px] font-bold text-[#171717] mb-4">Search</h1>
+
+      {/* Query */}
+      <div className="relative mb-4">
+        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-[#A3A3A3]" strokeWidth={2} />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='Try "job interview" or calm*'
+          autoFocus
+          className="w-full h-12 pl-10 pr-10 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg text-[17px] text-[#171717] placeholder:text-[#A3A3A3] outline-none focus:border-[#171717] transition-colors"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            aria-label="Clear search"
+            className="absolute right-3 top-1/2 -translate-y-1/2"
+          >
+            <X className="w-5 h-5 text-[#A3A3A3]" strokeWidth={2} />
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-2 overflow-x-auto pb-2 mb-2 -mx-5 px-5">
+        {dateRanges.map((range) => (
+          <button
+            key={range.id}
+            onClick={() => setDateRange(dateRange === range.id ? null : range.id)}
+            className={chipClassName(dateRange === range.id)}
+          >
+            {range.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-2 mb-4 -mx-5 px-5">
+        {moods.map((mood) => (
+          <button key={mood.id} onClick={() => toggleMood(mood.id)} className={chipClassName(selectedMoods.includes(mood.id))}>
+            {mood.emoji} {mood.label}
+          </button>
+        ))}
+      </div>
+
+      {isOffline && (
+        <div className="flex items-center gap-2 mb-4 text-[13px] text-[#525252]">
+          <WifiOff className="w-4 h-4" strokeWidth={2} />
+          Offline — searching entries on this device
+        </div>
+      )}
+
+      {/* Results */}
+      {debouncedQuery && !isSearching && hits.length === 0 && (
+        <p className="text-center py-8 text-[15px] text-[#A3A3A3]">No entries match “{debouncedQuery}”.</p>
+      )}
+
+      <div className="space-y-3">
+        {hits.map(({ entry, snippet }, index) => {
+          const mood = entry.mood ? getMoodOrFallback(entry.mood) : null;
+          return (
+            <motion.button
+              key={`${entry.id}-${index}`}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(index, 10) * 0.03, duration: 0.2 }}
+              onClick={() => setSelectedEntry(entry)}
+              className="w-full bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg p-4 text-left hover:bg-[#F5F5F4] transition-colors"
+            >
+              <div className="flex items-start justify-between mb-2">
+                <span className="text-[13px] text-[#525252]">
+                  {entry.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+                {mood && (
+                  <div
+                    className="h-8 w-8 rounded-lg flex items-center justify-center text-lg flex-shrink-0"
+                    style={{ backgroundColor: mood.color + '30' }}
+                  >
+                    {mood.emoji}
+                  </div>
+                )}
+              </div>
+              <p className="text-[15px] text-[#525252] leading-relaxed line-clamp-3">
+                {splitHighlights(snippet).map((part, i) =>
+                  part.highlighted ? (
+                    <mark key={i} className="bg-[#FEF3C7] text-[#171717] rounded-sm">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={i}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </motion.button>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+
+interface SessionsProps {
+  onBack: () => void;
+}
+
+interface DeviceSession {
+  id: string;
+  deviceLabel: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+const formatLastUsed = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function Sessions({ onBack }: SessionsProps) {
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<{ sessions: DeviceSession[] }>('/auth/sessions')
+      .then((data) => setSessions(data.sessions))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Couldn’t load devices'));
+  }, []);
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id);
+    setError(null);
+    try {
+      await apiRequest(`/auth/sessions/${id}`, { method: 'DELETE' });
+      setSessions((prev) => prev?.filter((s) => s.id !== id) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Couldn’t sign out that device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="min-h-screen bg-[#FFFFFF]"
+    >
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-[#E5E5E5] flex items-center">
+        <button onClick={onBack} className="flex items-center gap-1 -ml-2">
+          <ChevronLeft className="w-6 h-6 text-[#171717]" strokeWidth={2} />
+          <span className="text-[17px] text-[#171717]">Profile</span>
+        </button>
+      </div>
+
+      <div className="px-5 py-6">
+        <h3 className="text-[13px] font-semibold text-[#525252] uppercase mb-3">Signed-in Devices</h3>
+
+        {error && <p className="text-[13px] text-[#B91C1C] mb-3">{error}</p>}
+
+        {!sessions && !error && <p className="text-[15px] text-[#A3A3A3]">Loading…</p>}
+
+        {sessions && (
+          <div className="bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg overflow-hidden">
+            {sessions.map((session, index) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between px-4 py-4"
+                style={{ borderBottom: index < sessions.length - 1 ? '1px solid #E5E5E5' : 'none' }}
+              >
+                <div className="min-w-0">
+                  <p className="text-[17px] text-[#171717] truncate">
+                    {session.deviceLabel || 'Unknown device'}
+                  </p>
+                  <p className="text-[13px] text-[#525252]">
+                    {session.current ? 'This device' : `Last active ${formatLastUsed(session.lastUsedAt)}`}
+                    {session.ipAddress ? ` · ${session.ipAddress}` : ''}
+                  </p>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={revokingId === session.id}
+                    className="text-[15px] text-[#FF3B30] font-medium hover:opacity-70 transition-opacity disabled:opacity-30"
+                  >
+                    Sign Out
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,40 @@
+import { AlertCircle, Check, CloudOff, RefreshCw } from 'lucide-react';
+import type { SyncState } from '../lib/sync';
+
+interface SyncIndicatorProps {
+  sync: SyncState & { syncNow: () => void };
+  className?: string;
+}
+
+const pending = (count: number) => (count > 0 ? ` · ${count} pending` : '');
+
+export function SyncIndicator({ sync, className = '' }: SyncIndicatorProps) {
+  // Guests have nothing to sync, so there's nothing to show
+  if (sync.status === 'local') return null;
+
+  const { icon: Icon, label } =
+    sync.importedCount !== null
+      ? { icon: RefreshCw, label: `Loading journal · ${sync.importedCount}` }
+      : sync.status === 'syncing'
+        ? { icon: RefreshCw, label: 'Syncing…' }
+        : sync.status === 'offline'
+          ? { icon: CloudOff, label: `Offline${pending(sync.pendingCount)}` }
+          : sync.status === 'error'
+            ? { icon: AlertCircle, label: `Sync failed${pending(sync.pendingCount)}` }
+            : { icon: Check, label: 'Synced' };
+
+  return (
+    <button
+      onClick={() => sync.syncNow()}
+      disabled={sync.status === 'syncing'}
+      title={sync.lastSyncedAt ? `Last synced ${sync.lastSyncedAt.toLocaleTimeString()}` : 'Sync now'}
+      className={`h-7 px-2.5 rounded-full bg-[#F5F5F4] border border-[#E5E5E5] flex items-center gap-1.5 text-[12px] text-[#525252] hover:bg-[#E5E5E5] transition-colors ${className}`}
+    >
+      <Icon
+        className={`w-3.5 h-3.5 ${sync.status === 'error' ? 'text-[#DC2626]' : ''} ${sync.status === 'syncing' ? 'animate-spin' : ''}`}
+        strokeWidth={2}
+      />
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { Hash } from 'lucide-react';
+import type { JournalEntry } from '../App';
+import { collectTags } from '../lib/tags';
+
+interface TagFilterProps {
+  entries: JournalEntry[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  className?: string;
+}
+
+export function TagFilter({ entries, selected, onChange, className = '' }: TagFilterProps) {
+  const tags = useMemo(() => collectTags(entries), [entries]);
+
+  if (tags.length === 0) return null;
+
+  const toggle = (name: string) =>
+    onChange(selected.includes(name) ? selected.filter((tag) => tag !== name) : [...selected, name]);
+
+  return (
+    <div className={`flex gap-2 overflow-x-auto pb-2 ${className}`}>
+      {tags.map(({ name }) => {
+        const active = selected.includes(name);
+        return (
+          <button
+            key={name}
+            onClick={() => toggle(name)}
+            className={`h-8 px-3 rounded-full text-[13px] font-medium whitespace-nowrap flex items-center gap-0.5 transition-colors ${
+              active ? 'bg-[#171717] text-[#FAFAF9]' : 'bg-[#F5F5F4] text-[#525252]'
+            }`}
+          >
+            <Hash className="w-3.5 h-3.5" strokeWidth={2} />
+            {name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import { useAuth } from '../context/AuthContext';
+import { CodeInput } from './CodeInput';
+
+interface TwoFactorSettingsProps {
+  onBack: () => void;
+}
+
+interface SetupData {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+type Step = 'overview' | 'enroll' | 'recovery-codes' | 'regenerate' | 'disable';
+
+export function TwoFactorSettings({ onBack }: TwoFactorSettingsProps) {
+  const { user, refreshUser } = useAuth();
+  const isEnabled = !!user?.twoFactorEnabled;
+  const [step, setStep] = useState<Step>('overview');
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setCode('');
+      setError(err instanceof Error ? err.message : 'Something went wrong. Try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const goTo = (next: Step) => {
+    setStep(next);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      const data = await apiRequest<SetupData>('/auth/2fa/setup', { method: 'POST' });
+      setSetup(data);
+      goTo('enroll');
+    });
+
+  const confirmSetup = (value: string) =>
+    run(async () => {
+      const data = await apiRequest<{ recoveryCodes: string[] }>('/auth/2fa/enable', {
+        method: 'POST',
+        body: JSON.stringify({ code: value }),
+      });
+      setRecoveryCodes(data.recoveryCodes);
+      setSetup(null);
+      await refreshUser();
+      goTo('recovery-codes');
+    });
+
+  const regenerateCodes = (value: string) =>
+    run(async () => {
+      const data = await apiRequest<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+        method: 'POST',
+        body: JSON.stringify({ code: value }),
+      });
+      setRecoveryCodes(data.recoveryCodes);
+      goTo('recovery-codes');
+    });
+
+  const disable = () =>
+    run(async () => {
+      await apiRequest('/auth/2fa/disable', { method: 'POST', body: JSON.stringify({ password, code }) });
+      await refreshUser();
+      goTo('overview');
+    });
+
+  const primaryButtonClassName =
+    'w-full h-12 bg-[#171717] text-[#FAFAF9] rounded-lg font-semibold text-[17px] disabled:opacity-30';
+  const inputClassName =
+    'w-full h-12 px-4 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg text-[17px] text-[#171717] placeholder:text-[#A3A3A3] outline-none focus:border-[#171717] transition-colors';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="min-h-screen bg-[#FFFFFF]"
+    >
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-[#E5E5E5] flex items-center">
+        <button onClick={onBack} className="flex items-center gap-1 -ml-2">
+          <ChevronLeft className="w-6 h-6 text-[#171717]" strokeWidth={2} />
+          <span className="text-[17px] text-[#171717]">Profile</span>
+        </button>
+      </div>
+
+      <div className="px-5 py-6 space-y-5">
+        <h3 className="text-[13px] font-semibold text-[#525252] uppercase">Two-Factor Authentication</h3>
+
+        {step === 'overview' && !isEnabled && (
+          <>
+            <p className="text-[15px] text-[#525252] leading-relaxed">
+              Protect your journal with a code from an authenticator app each time you sign in.
+            </p>
+            <button onClick={startSetup} disabled={isBusy} className={primaryButtonClassName}>
+              {isBusy ? 'Please wait…' : 'Set Up'}
+            </button>
+          </>
+        )}
+
+        {step === 'overview' && isEnabled && (
+          <>
+            <p className="text-[15px] text-[#525252] leading-relaxed">
+              Two-factor authentication is on. You’ll be asked for a code when you sign in on a new device.
+            </p>
+            <button onClick={() => goTo('regenerate')} className={primaryButtonClassName}>
+              New Recovery Codes
+            </button>
+            <button
+              onClick={() => goTo('disable')}
+              className="w-full text-[17px] text-[#FF3B30] font-medium hover:opacity-70 transition-opacity"
+            >
+              Turn Off
+            </button>
+          </>
+        )}
+
+        {step === 'enroll' && setup && (
+          <>
+            <p className="text-[15px] text-[#525252] leading-relaxed">
+              Scan this code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Authenticator QR code" className="w-48 h-48 mx-auto" />
+            <p className="text-[13px] text-[#525252] text-center break-all">
+              Can’t scan? Enter this key: <span className="font-mono text-[#171717]">{setup.secret}</span>
+            </p>
+            <CodeInput value={code} onChange={setCode} onComplete={confirmSetup} disabled={isBusy} />
+          </>
+        )}
+
+        {step === 'recovery-codes' && (
+          <>
+            <p className="text-[15px] text-[#525252] leading-relaxed">
+              Save these recovery codes somewhere safe. Each one works once if you lose your authenticator.
+              They won’t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 bg-[#FAFAF9] border border-[#E5E5E5] rounded-lg p-4">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode} className="font-mono text-[15px] text-[#171717] text-center">
+                  {recoveryCode}
+                </span>
+              ))}
+            </div>
+            <button onClick={() => goTo('overview')} className={primaryButtonClassName}>
+              Done
+            </button>
+          </>
+        )}
+
+        {step === 'regenerate' && (
+          <>
+            <p className="text-[15px] text-[#525252] leading-relaxed">
+              Enter a code from your authenticator app. Your old recovery codes will stop working.
+            </p>
+            <CodeInput value={code} onChange={setCode} onComplete={regenerateCodes} disabled={isBusy} />
+            <button onClick={() => goTo('overview')} className="w-full text-[15px] text-[#525252]">
+              Cancel
+            </button>
+          </>
+        )}
+
+        {step === 'disable' && (
+          <>
+            <p className="text-[15px] text-[#525252] leading-relaxed">
+              Confirm with your password and a code from your authenticator app or a recovery code.
+            </p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Code"
+              autoComplete="one-time-code"
+              className={inputClassName}
+            />
+            <button onClick={disable} disabled={isBusy || !password || !code.trim()} className={primaryButtonClassName}>
+              {isBusy ? 'Please wait…' : 'Turn Off Two-Factor'}
+            </button>
+            <button onClick={() => goTo('overview')} className="w-full text-[15px] text-[#525252]">
+              Cancel
+            </button>
+          </>
+        )}
+
+        {error && <p className="text-[13px] text-[#B91C1C]">{error}</p>}
+      </div>
+    </motion.div>
+  );
+}
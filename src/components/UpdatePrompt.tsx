@@ -0,0 +1,29 @@
+/// <reference types="vite-plugin-pwa/react" />
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Registers the service worker and offers to reload once a new version has been downloaded
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW(_url, registration) {
+      // Long-lived installed apps rarely navigate, so look for new versions now and then
+      if (registration) setInterval(() => void registration.update(), UPDATE_CHECK_INTERVAL_MS);
+    },
+  });
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast('A new version of Ink is available', {
+      duration: Infinity,
+      action: { label: 'Reload', onClick: () => void updateServiceWorker(true) },
+    });
+  }, [needRefresh, updateServiceWorker]);
+
+  return null;
+}
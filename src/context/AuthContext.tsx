@@ -0,0 +1,301 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  ApiError,
+  apiRequest,
+  getAuthToken,
+  onAuthExpired,
+  onTokenRefreshed,
+  setAuthToken,
+  setRefreshToken,
+} from '../lib/api';
+import { clearApiCache } from '../lib/pwa';
+import { clearLocalJournal, getJournalOwner } from '../lib/localStore';
+import { clearSyncState } from '../lib/sync';
+import { deviceTimeZone } from '../shared/dates';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string | null;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  timeZone?: string; // The server reads date ranges and weeks in this zone
+}
+
+// 'guest' means the user chose to keep journaling on this device without an account
+export type AuthStatus = 'loading' | 'authenticated' | 'guest' | 'unauthenticated';
+
+interface AuthContextValue {
+  status: AuthStatus;
+  user: AuthUser | null;
+  token: string | null;
+  // Resolves with mfaRequired when the account needs a second step via verifyTwoFactor
+  login: (email: string, password: string) => Promise<{ mfaRequired: boolean }>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
+  refreshUser: () => Promise<void>;
+  register: (email: string, password: string, name?: string) => Promise<void>;
+  logout: () => void;
+  continueAsGuest: () => void;
+  // Set while the app was opened from a password reset email
+  resetToken: string | null;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (password: string) => Promise<void>;
+  cancelPasswordReset: () => void;
+  resendVerification: () => Promise<void>;
+  // Schedules deletion (restorable for 14 days) and signs out
+  deleteAccount: (password: string, code?: string) => Promise<void>;
+  restoreAccount: (email: string, password: string) => Promise<{ mfaRequired: boolean }>;
+}
+
+const USER_KEY = 'ink_user';
+const GUEST_KEY = 'ink_guest';
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Emailed links land on the app root with the token in the query string
+const readLinkParam = (name: string): string | null => new URLSearchParams(window.location.search).get(name);
+
+const clearLinkParam = (name: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(name);
+  window.history.replaceState(null, '', url.toString());
+};
+
+// An account's journal leaves the device with it, so the next person to open the app can't read it. A guest's
+// journal stays: signing in from guest mode offers to add it to the account.
+const forgetAccountJournal = () => {
+  if (!getJournalOwner()) return;
+  clearSyncState();
+  void clearLocalJournal();
+};
+
+const loadCachedUser = (): AuthUser | null => {
+  try {
+    const stored = localStorage.getItem(USER_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [token, setToken] = useState<string | null>(getAuthToken);
+  const [user, setUser] = useState<AuthUser | null>(loadCachedUser);
+  const [status, setStatus] = useState<AuthStatus>(() => {
+    if (getAuthToken()) return 'loading';
+    return localStorage.getItem(GUEST_KEY) ? 'guest' : 'unauthenticated';
+  });
+  const [resetToken, setResetToken] = useState<string | null>(() => readLinkParam('resetToken'));
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+
+  const applySession = useCallback((nextToken: string | null, nextUser: AuthUser | null, nextRefreshToken?: string | null) => {
+    setAuthToken(nextToken);
+    if (nextRefreshToken !== undefined) setRefreshToken(nextRefreshToken);
+    try {
+      if (nextUser) localStorage.setItem(USER_KEY, JSON.stringify(nextUser));
+      else localStorage.removeItem(USER_KEY);
+    } catch {
+      // ignore cache errors
+    }
+    // Entries the service worker kept for offline use shouldn't outlive the session
+    if (!nextUser) void clearApiCache();
+    setToken(nextToken);
+    setUser(nextUser);
+  }, []);
+
+  // Validate a stored token on launch. Offline, trust the cached user so the journal still opens.
+  useEffect(() => {
+    if (!token || status !== 'loading') return;
+    apiRequest<AuthUser>('/auth/me')
+      .then((me) => {
+        applySession(getAuthToken(), me);
+        setStatus('authenticated');
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && (err.status === 401 || err.status === 404)) {
+          applySession(null, null, null);
+          setStatus('unauthenticated');
+        } else {
+          console.error('Failed to verify session:', err);
+          setStatus(loadCachedUser() ? 'authenticated' : 'unauthenticated');
+        }
+      });
+  }, [token, status, applySession]);
+
+  // Follow the device's time zone, e.g. after travelling, so "today" on the server matches this device
+  useEffect(() => {
+    if (status !== 'authenticated' || !user) return;
+    const timeZone = deviceTimeZone();
+    if (user.timeZone === timeZone) return;
+    apiRequest<AuthUser>('/auth/me', { method: 'PATCH', body: JSON.stringify({ timeZone }) })
+      .then((me) => applySession(getAuthToken(), me))
+      .catch((err) => console.error('Failed to update time zone:', err));
+  }, [status, user, applySession]);
+
+  // Keep React state in step with silent refreshes done by the api helper
+  useEffect(() => {
+    const offRefreshed = onTokenRefreshed(() => setToken(getAuthToken()));
+    const offExpired = onAuthExpired(() => {
+      applySession(null, null, null);
+      setStatus('unauthenticated');
+    });
+    return () => {
+      offRefreshed();
+      offExpired();
+    };
+  }, [applySession]);
+
+  // Confirm the address from a verification link; works whether or not this device is signed in
+  useEffect(() => {
+    const verifyToken = readLinkParam('verifyEmail');
+    if (!verifyToken) return;
+    clearLinkParam('verifyEmail');
+    apiRequest('/auth/verify-email', { method: 'POST', body: JSON.stringify({ token: verifyToken }) })
+      .then(() => {
+        setUser((prev) => {
+          if (!prev) return prev;
+          const next = { ...prev, emailVerified: true };
+          localStorage.setItem(USER_KEY, JSON.stringify(next));
+          return next;
+        });
+      })
+      .catch((err) => console.error('Failed to verify email:', err));
+  }, []);
+
+  const completeAuth = useCallback((data: { user: AuthUser; token: string; refreshToken: string }) => {
+    localStorage.removeItem(GUEST_KEY);
+    applySession(data.token, data.user, data.refreshToken);
+    setStatus('authenticated');
+  }, [applySession]);
+
+  const login = useCallback(async (email: string, password: string) => {
+    const data = await apiRequest('/auth/login', { method: 'POST', body: JSON.stringify({ email, password }) });
+    if (data.mfaRequired) {
+      setMfaToken(data.mfaToken);
+      return { mfaRequired: true };
+    }
+    completeAuth(data);
+    return { mfaRequired: false };
+  }, [completeAuth]);
+
+  const verifyTwoFactor = useCallback(async (code: string) => {
+    if (!mfaToken) throw new Error('Sign-in expired. Enter your password again.');
+    const data = await apiRequest('/auth/login/2fa', { method: 'POST', body: JSON.stringify({ mfaToken, code }) });
+    setMfaToken(null);
+    completeAuth(data);
+  }, [mfaToken, completeAuth]);
+
+  const cancelTwoFactor = useCallback(() => setMfaToken(null), []);
+
+  const refreshUser = useCallback(async () => {
+    const me = await apiRequest<AuthUser>('/auth/me');
+    applySession(getAuthToken(), me);
+  }, [applySession]);
+
+  const register = useCallback(async (email: string, password: string, name?: string) => {
+    const data = await apiRequest('/auth/register', { method: 'POST', body: JSON.stringify({ email, password, name, timeZone: deviceTimeZone() }) });
+    completeAuth(data);
+  }, [completeAuth]);
+
+  const logout = useCallback(() => {
+    // Revoke the server session best-effort; signing out locally must work offline too
+    if (getAuthToken()) {
+      apiRequest('/auth/logout', { method: 'POST' }).catch(() => {});
+    }
+    applySession(null, null, null);
+    forgetAccountJournal();
+    localStorage.removeItem(GUEST_KEY);
+    setStatus('unauthenticated');
+  }, [applySession]);
+
+  const continueAsGuest = useCallback(() => {
+    localStorage.setItem(GUEST_KEY, '1');
+    setStatus('guest');
+  }, []);
+
+  const requestPasswordReset = useCallback(async (email: string) => {
+    await apiRequest('/auth/forgot-password', { method: 'POST', body: JSON.stringify({ email }) });
+  }, []);
+
+  const cancelPasswordReset = useCallback(() => {
+    clearLinkParam('resetToken');
+    setResetToken(null);
+  }, []);
+
+  const resetPassword = useCallback(async (password: string) => {
+    if (!resetToken) throw new Error('Reset link is missing');
+    await apiRequest('/auth/reset-password', { method: 'POST', body: JSON.stringify({ token: resetToken, password }) });
+    cancelPasswordReset();
+    // The server signed out every session, this one included
+    applySession(null, null, null);
+    setStatus('unauthenticated');
+  }, [resetToken, cancelPasswordReset, applySession]);
+
+  const resendVerification = useCallback(async () => {
+    await apiRequest('/auth/resend-verification', { method: 'POST' });
+  }, []);
+
+  const deleteAccount = useCallback(async (password: string, code?: string) => {
+    await apiRequest('/account', { method: 'DELETE', body: JSON.stringify({ password, code: code || undefined }) });
+    // The server already revoked every session
+    applySession(null, null, null);
+    forgetAccountJournal();
+    localStorage.removeItem(GUEST_KEY);
+    setStatus('unauthenticated');
+  }, [applySession]);
+
+  const restoreAccount = useCallback(async (email: string, password: string) => {
+    await apiRequest('/account/restore', { method: 'POST', body: JSON.stringify({ email, password }) });
+    return login(email, password);
+  }, [login]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      status,
+      user,
+      token,
+      login,
+      verifyTwoFactor,
+      cancelTwoFactor,
+      refreshUser,
+      register,
+      logout,
+      continueAsGuest,
+      resetToken,
+      requestPasswordReset,
+      resetPassword,
+      cancelPasswordReset,
+      resendVerification,
+      deleteAccount,
+      restoreAccount,
+    }),
+    [
+      status,
+      user,
+      token,
+      login,
+      verifyTwoFactor,
+      cancelTwoFactor,
+      refreshUser,
+      register,
+      logout,
+      continueAsGuest,
+      resetToken,
+      requestPasswordReset,
+      resetPassword,
+      cancelPasswordReset,
+      resendVerification,
+      deleteAccount,
+      restoreAccount,
+    ]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used within an AuthProvider');
+  return context;
+}
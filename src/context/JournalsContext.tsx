@@ -0,0 +1,124 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { Journal } from '../shared/journals';
+import { apiRequest } from '../lib/api';
+import { onUserEvent } from '../lib/events';
+import { useAuth } from './AuthContext';
+
+export type JournalInput = Omit<Journal, 'id' | 'isDefault'>;
+
+interface JournalsContextValue {
+  // Default first, then in the order they were made. Empty for guests, who write in a single journal.
+  journals: Journal[];
+  defaultJournal: Journal | undefined;
+  // The journal Home, Calendar and Insights show and new entries go to; null means all of them
+  selectedJournalId: string | null;
+  selectJournal: (id: string | null) => void;
+  getJournal: (id?: string) => Journal | undefined;
+  createJournal: (input: JournalInput) => Promise<Journal>;
+  updateJournal: (id: string, input: Partial<JournalInput> & { isDefault?: true }) => Promise<Journal>;
+  // Entries move to `moveTo`, or to the default journal
+  deleteJournal: (id: string, moveTo?: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'ink_journals';
+const SELECTED_KEY = 'ink_selected_journal';
+
+const JournalsContext = createContext<JournalsContextValue | null>(null);
+
+const loadCachedJournals = (): Journal[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export function JournalsProvider({ children }: { children: ReactNode }) {
+  const { token, status } = useAuth();
+  const [journals, setJournals] = useState<Journal[]>(loadCachedJournals);
+  const [selectedJournalId, setSelectedJournalId] = useState<string | null>(() => localStorage.getItem(SELECTED_KEY));
+
+  const journalsRequest = useCallback(async (path: string, init: RequestInit = {}) => {
+    if (!token) throw new Error('Sign in to manage journals');
+    return apiRequest(`/journals${path}`, init);
+  }, [token]);
+
+  const refreshJournals = useCallback(() => {
+    journalsRequest('')
+      .then((data) => setJournals(Array.isArray(data?.journals) ? data.journals : []))
+      .catch((err) => console.error('Failed to load journals:', err));
+  }, [journalsRequest]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(journals));
+      if (selectedJournalId) localStorage.setItem(SELECTED_KEY, selectedJournalId);
+      else localStorage.removeItem(SELECTED_KEY);
+    } catch {
+      // ignore cache errors
+    }
+  }, [journals, selectedJournalId]);
+
+  // Journals belong to the account; drop them from this device on sign-out
+  useEffect(() => {
+    if (status !== 'unauthenticated') return;
+    setJournals([]);
+    setSelectedJournalId(null);
+  }, [status]);
+
+  // A journal deleted on another device can't stay selected
+  useEffect(() => {
+    if (selectedJournalId && journals.length > 0 && !journals.some((j) => j.id === selectedJournalId)) {
+      setSelectedJournalId(null);
+    }
+  }, [journals, selectedJournalId]);
+
+  // Refresh from the backend when signed in and whenever another device changes a journal
+  useEffect(() => {
+    if (!token) return;
+    refreshJournals();
+    return onUserEvent((event) => {
+      if (event.type === 'journals.changed') refreshJournals();
+    });
+  }, [token, refreshJournals]);
+
+  const createJournal = useCallback(async (input: JournalInput) => {
+    const created: Journal = await journalsRequest('', { method: 'POST', body: JSON.stringify(input) });
+    setJournals((prev) => [...prev, { ...created, entryCount: 0 }]);
+    return created;
+  }, [journalsRequest]);
+
+  const updateJournal = useCallback(async (id: string, input: Partial<JournalInput> & { isDefault?: true }) => {
+    const updated: Journal = await journalsRequest(`/${id}`, { method: 'PATCH', body: JSON.stringify(input) });
+    setJournals((prev) =>
+      prev.map((j) => (j.id === id ? { ...j, ...updated } : updated.isDefault ? { ...j, isDefault: false } : j))
+    );
+    return updated;
+  }, [journalsRequest]);
+
+  const deleteJournal = useCallback(async (id: string, moveTo?: string) => {
+    const query = moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : '';
+    await journalsRequest(`/${id}${query}`, { method: 'DELETE' });
+    setJournals((prev) => prev.filter((j) => j.id !== id));
+  }, [journalsRequest]);
+
+  const value = useMemo<JournalsContextValue>(() => ({
+    journals,
+    defaultJournal: journals.find((j) => j.isDefault),
+    selectedJournalId,
+    selectJournal: setSelectedJournalId,
+    getJournal: (id) => (id ? journals.find((j) => j.id === id) : undefined),
+    createJournal,
+    updateJournal,
+    deleteJournal,
+  }), [journals, selectedJournalId, createJournal, updateJournal, deleteJournal]);
+
+  return <JournalsContext.Provider value={value}>{children}</JournalsContext.Provider>;
+}
+
+export function useJournals(): JournalsContextValue {
+  const context = useContext(JournalsContext);
+  if (!context) throw new Error('useJournals must be used within a JournalsProvider');
+  return context;
+}
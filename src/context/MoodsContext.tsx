@@ -0,0 +1,103 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  FALLBACK_MOOD,
+  MOODS,
+  resolveMood,
+  toMoodDefinition,
+  type CustomMood,
+  type MoodDefinition,
+} from '../shared/moods';
+import { apiRequest } from '../lib/api';
+import { useAuth } from './AuthContext';
+
+type CustomMoodInput = Omit<CustomMood, 'id'>;
+
+interface MoodsContextValue {
+  // Built-ins first, then the user's custom moods
+  moods: MoodDefinition[];
+  customMoods: CustomMood[];
+  getMood: (id?: string) => MoodDefinition | undefined;
+  getMoodOrFallback: (id?: string) => MoodDefinition;
+  createMood: (input: CustomMoodInput) => Promise<CustomMood>;
+  updateMood: (id: string, input: Partial<CustomMoodInput>) => Promise<CustomMood>;
+  deleteMood: (id: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'ink_custom_moods';
+
+const MoodsContext = createContext<MoodsContextValue | null>(null);
+
+const loadCachedMoods = (): CustomMood[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export function MoodsProvider({ children }: { children: ReactNode }) {
+  const { token, status } = useAuth();
+  const [customMoods, setCustomMoods] = useState<CustomMood[]>(loadCachedMoods);
+
+  const moodsRequest = useCallback(async (path: string, init: RequestInit = {}) => {
+    if (!token) throw new Error('Sign in to manage custom moods');
+    return apiRequest(`/moods${path}`, init);
+  }, [token]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(customMoods));
+    } catch {
+      // ignore cache errors
+    }
+  }, [customMoods]);
+
+  // Custom moods belong to the account; drop them from this device on sign-out
+  useEffect(() => {
+    if (status === 'unauthenticated') setCustomMoods([]);
+  }, [status]);
+
+  // Refresh from the backend when signed in; the cached copy covers offline use
+  useEffect(() => {
+    if (!token) return;
+    moodsRequest('')
+      .then((data) => setCustomMoods(Array.isArray(data?.custom) ? data.custom : []))
+      .catch((err) => console.error('Failed to load custom moods:', err));
+  }, [token, moodsRequest]);
+
+  const createMood = useCallback(async (input: CustomMoodInput) => {
+    const created: CustomMood = await moodsRequest('', { method: 'POST', body: JSON.stringify(input) });
+    setCustomMoods((prev) => [...prev, created]);
+    return created;
+  }, [moodsRequest]);
+
+  const updateMood = useCallback(async (id: string, input: Partial<CustomMoodInput>) => {
+    const updated: CustomMood = await moodsRequest(`/${id}`, { method: 'PATCH', body: JSON.stringify(input) });
+    setCustomMoods((prev) => prev.map((m) => (m.id === id ? updated : m)));
+    return updated;
+  }, [moodsRequest]);
+
+  const deleteMood = useCallback(async (id: string) => {
+    await moodsRequest(`/${id}`, { method: 'DELETE' });
+    setCustomMoods((prev) => prev.filter((m) => m.id !== id));
+  }, [moodsRequest]);
+
+  const value = useMemo<MoodsContextValue>(() => ({
+    moods: [...MOODS, ...customMoods.map(toMoodDefinition)],
+    customMoods,
+    getMood: (id) => resolveMood(id, customMoods),
+    getMoodOrFallback: (id) => resolveMood(id, customMoods) ?? FALLBACK_MOOD,
+    createMood,
+    updateMood,
+    deleteMood,
+  }), [customMoods, createMood, updateMood, deleteMood]);
+
+  return <MoodsContext.Provider value={value}>{children}</MoodsContext.Provider>;
+}
+
+export function useMoods(): MoodsContextValue {
+  const context = useContext(MoodsContext);
+  if (!context) throw new Error('useMoods must be used within a MoodsProvider');
+  return context;
+}
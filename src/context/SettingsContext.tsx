@@ -0,0 +1,63 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+
+// Device-level preferences; they aren't synced to the account
+export interface Settings {
+  reduceMotion: boolean;
+  showPrompts: boolean;
+}
+
+export type SettingKey = keyof Settings;
+
+export const SETTING_LABELS: Record<SettingKey, string> = {
+  reduceMotion: 'Reduce Motion',
+  showPrompts: 'Writing Prompts',
+};
+
+interface SettingsContextValue {
+  settings: Settings;
+  toggleSetting: (key: SettingKey) => void;
+}
+
+const STORAGE_KEY = 'ink_settings';
+
+const defaultSettings: Settings = {
+  reduceMotion: false,
+  showPrompts: true,
+};
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+const loadSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : defaultSettings;
+  } catch {
+    return defaultSettings;
+  }
+};
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // ignore cache errors
+    }
+  }, [settings]);
+
+  const toggleSetting = useCallback((key: SettingKey) => {
+    setSettings((prev) => ({ ...prev, [key]: !prev[key] }));
+  }, []);
+
+  const value = useMemo<SettingsContextValue>(() => ({ settings, toggleSetting }), [settings, toggleSetting]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+}
+
+export function useSettings(): SettingsContextValue {
+  const context = useContext(SettingsContext);
+  if (!context) throw new Error('useSettings must be used within a SettingsProvider');
+  return context;
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { EntrySync } from '../lib/sync';
+
+// App owns the entries, so it runs useEntrySync and provides the result here for screens deeper down
+export const SyncContext = createContext<EntrySync | null>(null);
+
+export function useSync(): EntrySync {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within SyncContext.Provider');
+  }
+  return context;
+}
@@ -0,0 +1,124 @@
+// Thin fetch wrapper for the Ink API. Adds the stored bearer token, transparently
+// refreshes an expired access token once, and turns error responses into ApiError
+// so callers can show the server's message.
+
+const TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'ink_refresh_token';
+
+const apiBase = (import.meta as any)?.env?.VITE_API_BASE_URL || '/api';
+
+export class ApiError extends Error {
+  status: number;
+  data: any;
+  constructor(status: number, message: string, data?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const setAuthToken = (token: string | null): void => {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+export const getRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const setRefreshToken = (token: string | null): void => {
+  if (token) localStorage.setItem(REFRESH_TOKEN_KEY, token);
+  else localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+export const apiUrl = (path: string): string => `${apiBase}${path}`;
+
+type Listener = () => void;
+const tokenListeners = new Set<Listener>();
+const expiredListeners = new Set<Listener>();
+
+// Fired after a silent refresh stores a new access token
+export const onTokenRefreshed = (listener: Listener): (() => void) => {
+  tokenListeners.add(listener);
+  return () => tokenListeners.delete(listener);
+};
+
+// Fired when the refresh token is rejected and the user has to sign in again
+export const onAuthExpired = (listener: Listener): (() => void) => {
+  expiredListeners.add(listener);
+  return () => expiredListeners.delete(listener);
+};
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+const REFRESH_LOCK = 'ink-token-refresh';
+
+// Tabs share the stored tokens, so refreshes are also serialized across tabs with a Web Lock
+const withRefreshLock = async (run: () => Promise<boolean>): Promise<boolean> =>
+  typeof navigator !== 'undefined' && navigator.locks ? await navigator.locks.request(REFRESH_LOCK, run) : run();
+
+// Single-flight: concurrent 401s share one refresh request so a rotated token
+// is never presented twice (the server treats that as reuse and revokes it).
+// `rejectedToken` is the access token that got the 401; when another tab has
+// stored a newer one by the time this tab holds the lock, that one is used.
+const refreshAccessToken = (rejectedToken: string): Promise<boolean> => {
+  if (refreshInFlight) return refreshInFlight;
+  if (!getRefreshToken()) return Promise.resolve(false);
+
+  refreshInFlight = withRefreshLock(async () => {
+    const current = getAuthToken();
+    if (current && current !== rejectedToken) return true;
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+    try {
+      const response = await fetch(apiUrl('/auth/refresh'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) {
+        if (response.status !== 401) return false;
+        // Without Web Locks another tab may have rotated the token meanwhile; its new one is the one to use
+        if (getRefreshToken() !== refreshToken) return !!getRefreshToken();
+        setAuthToken(null);
+        setRefreshToken(null);
+        expiredListeners.forEach((listener) => listener());
+        return false;
+      }
+      const data = await response.json();
+      setAuthToken(data.token);
+      setRefreshToken(data.refreshToken);
+      tokenListeners.forEach((listener) => listener());
+      return true;
+    } catch {
+      return false;
+    }
+  }).finally(() => {
+    refreshInFlight = null;
+  });
+  return refreshInFlight;
+};
+
+// Raw variant for callers that need the Response itself (status checks, blobs)
+export async function apiFetch(path: string, init: RequestInit = {}, retry = true): Promise<Response> {
+  const token = getAuthToken();
+  const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+  if (init.body && typeof init.body === 'string') headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+
+  const response = await fetch(apiUrl(path), { ...init, headers });
+  if (response.status === 401 && retry && token && (await refreshAccessToken(token))) {
+    return apiFetch(path, init, false);
+  }
+  return response;
+}
+
+export async function apiRequest<T = any>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await apiFetch(path, init);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, data?.error || 'Request failed', data);
+  }
+  return data as T;
+}
@@ -0,0 +1,72 @@
+// Word-level diff for comparing entry revisions. Whitespace is kept as its own token so the
+// output can be rendered as-is with whitespace-pre-wrap.
+
+export type DiffPart = { type: 'equal' | 'added' | 'removed'; text: string };
+
+// Above this many token pairs the LCS table gets too large to build on a phone
+const MAX_TABLE_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Shared leading and trailing text is the common case for edits, so trim it before the quadratic part
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_TABLE_CELLS) {
+    if (n) pushPart(parts, 'removed', midA.join(''));
+    if (m) pushPart(parts, 'added', midB.join(''));
+  } else {
+    // lcs[i * (m + 1) + j] is the LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+        pushPart(parts, 'removed', midA[i++]);
+      } else {
+        pushPart(parts, 'added', midB[j++]);
+      }
+    }
+    while (i < n) pushPart(parts, 'removed', midA[i++]);
+    while (j < m) pushPart(parts, 'added', midB[j++]);
+  }
+
+  if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
@@ -0,0 +1,92 @@
+// Live updates from GET /events (Server-Sent Events). EventSource can't send the bearer token, so the
+// stream is read with fetch. Every (re)connect starts with a `ready` event, which is the cue to catch up
+// on anything missed while disconnected.
+
+import { useEffect } from 'react';
+import { apiFetch } from './api';
+import type { ServerEntry } from './sync';
+
+export type UserEvent =
+  | { type: 'ready' }
+  | { type: 'entry.created' | 'entry.updated'; entry: ServerEntry }
+  | { type: 'entry.deleted'; id: string; deletedAt: string }
+  | { type: 'entries.changed' }
+  | { type: 'journals.changed' }
+  | { type: 'insight.ready'; insight: unknown };
+
+type Listener = (event: UserEvent) => void;
+const listeners = new Set<Listener>();
+
+const RECONNECT_BASE_MS = 2 * 1000;
+const RECONNECT_MAX_MS = 60 * 1000;
+
+export const onUserEvent = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Only `event:` and `data:` lines are used; comments (the server's keep-alive pings) are skipped
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: Listener): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const lines = buffer.slice(0, end).split('\n');
+      buffer = buffer.slice(end + 2);
+      const type = lines.find((line) => line.startsWith('event:'))?.slice(6).trim();
+      const data = lines.filter((line) => line.startsWith('data:')).map((line) => line.slice(5).trimStart()).join('\n');
+      if (!type || !data) continue;
+      try {
+        onEvent({ ...JSON.parse(data), type });
+      } catch {
+        // ignore malformed events
+      }
+    }
+  }
+}
+
+/** Keeps the event stream open while `userId` is set and hands events to the `onUserEvent` listeners. */
+export function useEventStream(userId: string | null) {
+  useEffect(() => {
+    if (!userId) return;
+    const controller = new AbortController();
+    let failures = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = async () => {
+      retryTimer = null;
+      try {
+        const response = await apiFetch('/events', { headers: { Accept: 'text/event-stream' }, signal: controller.signal });
+        if (!response.ok || !response.body) throw new Error(`Event stream failed (${response.status})`);
+        await readEvents(response.body, (event) => {
+          if (event.type === 'ready') failures = 0;
+          listeners.forEach((listener) => listener(event));
+        });
+      } catch {
+        failures += 1;
+      }
+      if (controller.signal.aborted) return;
+      // The server also ends the stream when the access token expires; the next request refreshes it
+      retryTimer = setTimeout(() => void connect(), Math.min(RECONNECT_BASE_MS * 2 ** failures, RECONNECT_MAX_MS));
+    };
+
+    const onOnline = () => {
+      if (!retryTimer) return;
+      clearTimeout(retryTimer);
+      void connect();
+    };
+
+    void connect();
+    window.addEventListener('online', onOnline);
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+      window.removeEventListener('online', onOnline);
+    };
+  }, [userId]);
+}
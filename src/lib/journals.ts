@@ -0,0 +1,8 @@
+import type { JournalEntry } from '../App';
+
+// Entries written as a guest, or before they reached the server, go to the default journal
+export const entryJournalId = (entry: JournalEntry, defaultJournalId?: string) => entry.journalId ?? defaultJournalId;
+
+// Entries in the selected journal; with none selected, everything matches
+export const filterEntriesByJournal = (entries: JournalEntry[], journalId: string | null, defaultJournalId?: string) =>
+  journalId ? entries.filter((entry) => entryJournalId(entry, defaultJournalId) === journalId) : entries;
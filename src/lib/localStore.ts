@@ -0,0 +1,363 @@
+// IndexedDB storage for what the journal keeps on this device: entries, photo blobs, the sync outbox
+// and the insight cache. Entries are written one record at a time and photos are stored as Blobs, so
+// saving no longer rewrites the whole journal or runs into the ~5MB localStorage quota. Data from
+// the old localStorage keys is moved over the first time the database opens.
+//
+// The stores hold one journal at a time. It belongs to the account recorded as its owner, or to nobody while
+// it was written as a guest, and is deleted when its account signs out or another one opens it (see App).
+
+import type { JournalEntry } from '../App';
+import { normalizeMood } from '../shared/moods';
+import { extractHashtags } from '../shared/tags';
+import { deviceTimeZone, localDateKey } from '../shared/dates';
+import { createId } from './ids';
+
+const DB_NAME = 'ink';
+const DB_VERSION = 1;
+
+const LEGACY_ENTRIES_KEY = 'ink_entries';
+const LEGACY_INSIGHT_KEY = 'ink_ai_insight';
+const LEGACY_OUTBOX_PREFIX = 'ink_outbox:';
+
+const INSIGHT_CACHE_KEY = 'latest';
+const OWNER_KEY = 'ink_journal_owner';
+
+interface StoredEntry {
+  id: string;
+  date: string;
+  entryDate?: string; // Missing on entries saved before entries had a calendar day of their own
+  timeZone?: string;
+  journalId?: string;
+  content: string;
+  mood?: string;
+  tags?: string[];
+  createdAt: string;
+  version?: number;
+  photos?: string[]; // Ids in the blobs store; anything else is a URL kept as is
+}
+
+export interface StoredBlob {
+  id: string;
+  blob: Blob;
+  attachmentId?: string; // Set once the photo is uploaded, or when it was downloaded from the server
+}
+
+interface StoredOutboxItem<T> {
+  id: string;
+  userId: string;
+  seq: number; // Send order
+  item: T;
+}
+
+// Photos the UI shows, by object URL. Ids are assigned when the photo is added so saving twice doesn't store it twice.
+const photoBlobs = new Map<string, StoredBlob>();
+const storedBlobIds = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+const parseJson = <T>(value: string | null): T | null => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+function dataUrlToBlob(url: string): Blob {
+  const comma = url.indexOf(',');
+  const header = url.slice(0, comma);
+  const data = url.slice(comma + 1);
+  const type = /^data:([^;,]+)/.exec(header)?.[1] ?? 'application/octet-stream';
+  const bytes = header.endsWith(';base64')
+    ? Uint8Array.from(atob(data), (c) => c.charCodeAt(0))
+    : new TextEncoder().encode(decodeURIComponent(data));
+  return new Blob([bytes], { type });
+}
+
+const fromStored = (stored: StoredEntry, blobs: Map<string, StoredBlob>): JournalEntry => ({
+  id: stored.id,
+  date: new Date(stored.date),
+  entryDate: stored.entryDate ?? localDateKey(new Date(stored.date)),
+  timeZone: stored.timeZone ?? deviceTimeZone(),
+  journalId: stored.journalId,
+  content: stored.content,
+  mood: normalizeMood(stored.mood) ?? stored.mood,
+  tags: stored.tags ?? extractHashtags(stored.content),
+  createdAt: new Date(stored.createdAt),
+  version: stored.version,
+  photos: stored.photos?.map((ref) => {
+    const photo = blobs.get(ref);
+    if (!photo) return ref;
+    const url = URL.createObjectURL(photo.blob);
+    photoBlobs.set(url, photo);
+    return url;
+  }),
+});
+
+const toStored = (entry: JournalEntry, photos: string[] | undefined): StoredEntry => ({
+  id: entry.id,
+  date: entry.date.toISOString(),
+  entryDate: entry.entryDate,
+  timeZone: entry.timeZone,
+  journalId: entry.journalId,
+  content: entry.content,
+  mood: entry.mood,
+  tags: entry.tags,
+  createdAt: entry.createdAt.toISOString(),
+  version: entry.version,
+  photos,
+});
+
+// One-time move from localStorage. The old keys are only removed once everything is written.
+async function migrateFromLocalStorage(db: IDBDatabase) {
+  const entries = parseJson<(Omit<StoredEntry, 'photos'> & { photos?: string[] })[]>(localStorage.getItem(LEGACY_ENTRIES_KEY));
+  const insight = parseJson<unknown>(localStorage.getItem(LEGACY_INSIGHT_KEY));
+  const outboxKeys = Object.keys(localStorage).filter((key) => key.startsWith(LEGACY_OUTBOX_PREFIX));
+  if (!entries && !insight && outboxKeys.length === 0) return;
+
+  const tx = db.transaction(['entries', 'blobs', 'outbox', 'insights'], 'readwrite');
+  for (const entry of entries ?? []) {
+    // Photos were inlined as data URLs
+    const photos = entry.photos?.map((url) => {
+      if (!url.startsWith('data:')) return url;
+      const id = createId();
+      tx.objectStore('blobs').put({ id, blob: dataUrlToBlob(url) } satisfies StoredBlob);
+      return id;
+    });
+    tx.objectStore('entries').put({ ...entry, photos } satisfies StoredEntry);
+  }
+  for (const key of outboxKeys) {
+    const userId = key.slice(LEGACY_OUTBOX_PREFIX.length);
+    const items = parseJson<{ id: string }[]>(localStorage.getItem(key)) ?? [];
+    items.forEach((item, index) => {
+      tx.objectStore('outbox').put({ id: item.id, userId, seq: index + 1, item } satisfies StoredOutboxItem<unknown>);
+    });
+  }
+  if (insight) tx.objectStore('insights').put({ key: INSIGHT_CACHE_KEY, value: insight });
+  await completion(tx);
+
+  localStorage.removeItem(LEGACY_ENTRIES_KEY);
+  localStorage.removeItem(LEGACY_INSIGHT_KEY);
+  outboxKeys.forEach((key) => localStorage.removeItem(key));
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('entries', { keyPath: 'id' });
+          db.createObjectStore('blobs', { keyPath: 'id' });
+          db.createObjectStore('outbox', { keyPath: 'id' }).createIndex('userId', 'userId');
+          db.createObjectStore('insights', { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+    // Let the next call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/** Registers a photo and returns a URL to show it with. Photos picked on this device have no attachment yet. */
+export function createPhotoUrl(blob: Blob, attachmentId?: string): string {
+  const url = URL.createObjectURL(blob);
+  photoBlobs.set(url, { id: createId(), blob, attachmentId });
+  return url;
+}
+
+export const getPhotoBlob = (url: string): StoredBlob | undefined => photoBlobs.get(url);
+
+export const findPhotoBlob = (id: string): StoredBlob | undefined =>
+  Array.from(photoBlobs.values()).find((photo) => photo.id === id);
+
+export function findPhotoUrl(attachmentId: string): string | undefined {
+  for (const [url, photo] of photoBlobs) if (photo.attachmentId === attachmentId) return url;
+  return undefined;
+}
+
+// Remembers which server attachment a local photo became, so it isn't uploaded or downloaded again
+export async function linkPhotoToAttachment(blobId: string, attachmentId: string): Promise<void> {
+  const photo = findPhotoBlob(blobId);
+  if (!photo) return;
+  photo.attachmentId = attachmentId;
+  if (!storedBlobIds.has(photo.id)) return;
+  try {
+    const db = await openDb();
+    const tx = db.transaction('blobs', 'readwrite');
+    tx.objectStore('blobs').put(photo);
+    await completion(tx);
+  } catch (error) {
+    console.error('Failed to save photo upload state:', error);
+  }
+}
+
+// The account the journal on this device belongs to, or null for a guest's journal
+export const getJournalOwner = (): string | null => localStorage.getItem(OWNER_KEY);
+
+export const setJournalOwner = (userId: string): void => localStorage.setItem(OWNER_KEY, userId);
+
+/** Deletes the journal kept on this device: entries, photos, queued changes and cached insights. */
+export async function clearLocalJournal(): Promise<void> {
+  photoBlobs.forEach((_, url) => URL.revokeObjectURL(url));
+  photoBlobs.clear();
+  storedBlobIds.clear();
+  localStorage.removeItem(OWNER_KEY);
+  localStorage.removeItem(LEGACY_ENTRIES_KEY);
+  localStorage.removeItem(LEGACY_INSIGHT_KEY);
+  try {
+    const db = await openDb();
+    const tx = db.transaction(['entries', 'blobs', 'outbox', 'insights'], 'readwrite');
+    ['entries', 'blobs', 'outbox', 'insights'].forEach((name) => tx.objectStore(name).clear());
+    await completion(tx);
+  } catch (error) {
+    console.error('Failed to clear the journal on this device:', error);
+  }
+}
+
+export async function loadEntries(): Promise<JournalEntry[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(['entries', 'blobs'], 'readonly');
+    const [entries, blobs] = await Promise.all([
+      promisify(tx.objectStore('entries').getAll() as IDBRequest<StoredEntry[]>),
+      promisify(tx.objectStore('blobs').getAll() as IDBRequest<StoredBlob[]>),
+    ]);
+    blobs.forEach((stored) => storedBlobIds.add(stored.id));
+    const blobsById = new Map(blobs.map((stored) => [stored.id, stored]));
+    return entries.map((entry) => fromStored(entry, blobsById)).sort((a, b) => b.date.getTime() - a.date.getTime());
+  } catch (error) {
+    console.error('Failed to load entries from IndexedDB:', error);
+    // Without IndexedDB nothing was migrated, so the old copy is still there to read
+    const legacy = parseJson<StoredEntry[]>(localStorage.getItem(LEGACY_ENTRIES_KEY)) ?? [];
+    return legacy.map((entry) => fromStored(entry, new Map()));
+  }
+}
+
+/**
+ * Writes the difference between two versions of the entry list: entries whose object changed are
+ * put, missing ones are deleted, and photos no entry uses any more are dropped.
+ */
+export async function saveEntryChanges(previous: JournalEntry[], next: JournalEntry[]): Promise<void> {
+  const before = new Map(previous.map((entry) => [entry.id, entry]));
+  const nextIds = new Set(next.map((entry) => entry.id));
+  const changed = next.filter((entry) => before.get(entry.id) !== entry);
+  const removed = previous.filter((entry) => !nextIds.has(entry.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  try {
+    const db = await openDb();
+    const tx = db.transaction(['entries', 'blobs'], 'readwrite');
+    const entries = tx.objectStore('entries');
+    const blobs = tx.objectStore('blobs');
+
+    for (const entry of changed) {
+      const photos = entry.photos?.map((url) => {
+        const photo = photoBlobs.get(url);
+        if (!photo) return url;
+        if (!storedBlobIds.has(photo.id)) {
+          blobs.put(photo);
+          storedBlobIds.add(photo.id);
+        }
+        return photo.id;
+      });
+      entries.put(toStored(entry, photos));
+    }
+    for (const entry of removed) entries.delete(entry.id);
+
+    const inUse = new Set(next.flatMap((entry) => entry.photos ?? []));
+    const replaced = changed.map((entry) => before.get(entry.id)).filter((entry): entry is JournalEntry => !!entry);
+    for (const entry of [...removed, ...replaced]) {
+      for (const url of entry.photos ?? []) {
+        const photo = photoBlobs.get(url);
+        if (!photo || inUse.has(url)) continue;
+        blobs.delete(photo.id);
+        // Undoing a delete puts the same entry back, so the blob stays registered to be written again
+        storedBlobIds.delete(photo.id);
+      }
+    }
+    await completion(tx);
+  } catch (error) {
+    console.error('Failed to save entries to IndexedDB:', error);
+  }
+}
+
+export async function getOutbox<T>(userId: string): Promise<T[]> {
+  const db = await openDb();
+  const store = db.transaction('outbox', 'readonly').objectStore('outbox');
+  const records = await promisify(store.index('userId').getAll(userId) as IDBRequest<StoredOutboxItem<T>[]>);
+  return records.sort((a, b) => a.seq - b.seq).map((record) => record.item);
+}
+
+/**
+ * Replaces a user's outbox with `update(outbox)` in one transaction, so the sync loop and new edits
+ * can't overwrite each other. `update` must be synchronous and return new objects for changed items.
+ */
+export async function updateOutbox<T extends { id: string }>(userId: string, update: (outbox: T[]) => T[]): Promise<T[]> {
+  const db = await openDb();
+  const tx = db.transaction('outbox', 'readwrite');
+  const store = tx.objectStore('outbox');
+  const records = await promisify(store.index('userId').getAll(userId) as IDBRequest<StoredOutboxItem<T>[]>);
+  records.sort((a, b) => a.seq - b.seq);
+
+  const next = update(records.map((record) => record.item));
+  const existing = new Map(records.map((record) => [record.id, record]));
+  const nextIds = new Set(next.map((item) => item.id));
+  let seq = records.length ? records[records.length - 1].seq : 0;
+
+  for (const record of records) {
+    if (!nextIds.has(record.id)) store.delete(record.id);
+  }
+  for (const item of next) {
+    const record = existing.get(item.id);
+    if (record?.item === item) continue;
+    store.put({ id: item.id, userId, seq: record?.seq ?? ++seq, item } satisfies StoredOutboxItem<T>);
+  }
+  await completion(tx);
+  return next;
+}
+
+export async function loadInsightCache<T>(): Promise<T | null> {
+  try {
+    const db = await openDb();
+    const store = db.transaction('insights', 'readonly').objectStore('insights');
+    const record = await promisify(store.get(INSIGHT_CACHE_KEY) as IDBRequest<{ value: T } | undefined>);
+    return record?.value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveInsightCache<T>(value: T): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction('insights', 'readwrite');
+    tx.objectStore('insights').put({ key: INSIGHT_CACHE_KEY, value });
+    await completion(tx);
+  } catch {
+    // ignore cache errors
+  }
+}
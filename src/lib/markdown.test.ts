@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { applyMarkdownFormat, type TextSelection } from './markdown';
+
+const selected = ({ value, start, end }: TextSelection) => value.slice(start, end);
+
+describe('applyMarkdownFormat', () => {
+  it('wraps and unwraps bold around the selection', () => {
+    const bold = applyMarkdownFormat({ value: 'hello world', start: 6, end: 11 }, 'bold');
+    expect(bold.value).toBe('hello **world**');
+    expect(selected(bold)).toBe('world');
+    expect(applyMarkdownFormat(bold, 'bold').value).toBe('hello world');
+  });
+
+  it('inserts a placeholder with nothing selected', () => {
+    const italic = applyMarkdownFormat({ value: 'hello ', start: 6, end: 6 }, 'italic');
+    expect(italic.value).toBe('hello *italic text*');
+    expect(selected(italic)).toBe('italic text');
+  });
+
+  it('numbers every selected line and toggles back', () => {
+    const numbered = applyMarkdownFormat({ value: 'a\nb\nc', start: 0, end: 3 }, 'numbered');
+    expect(numbered.value).toBe('1. a\n2. b\nc');
+    expect(applyMarkdownFormat(numbered, 'numbered').value).toBe('a\nb\nc');
+  });
+
+  it('replaces one list marker with another', () => {
+    expect(applyMarkdownFormat({ value: '- a\n- b', start: 0, end: 7 }, 'checkbox').value).toBe('- [ ] a\n- [ ] b');
+  });
+
+  it('leaves the caret at the end of the line', () => {
+    const quote = applyMarkdownFormat({ value: 'x\nquote me', start: 4, end: 4 }, 'quote');
+    expect(quote.value).toBe('x\n> quote me');
+    expect(quote.start).toBe(quote.value.length);
+  });
+
+  it('selects the URL of a new link', () => {
+    const link = applyMarkdownFormat({ value: 'see site now', start: 4, end: 8 }, 'link');
+    expect(link.value).toBe('see [site](https://) now');
+    expect(selected(link)).toBe('https://');
+  });
+});
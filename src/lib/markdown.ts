@@ -0,0 +1,84 @@
+// Formatting actions for the entry editor's toolbar. Each takes the text and the current selection and returns
+// the new text with the selection to restore, so the textarea stays a plain, undoable text field.
+
+export interface TextSelection {
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type MarkdownFormat = 'heading' | 'bold' | 'italic' | 'bullet' | 'numbered' | 'checkbox' | 'quote' | 'link';
+
+// Wraps the selection in a marker, or unwraps it when it is already wrapped
+function toggleWrap({ value, start, end }: TextSelection, marker: string, placeholder: string): TextSelection {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + value.slice(start, end) + after.slice(marker.length),
+      start: start - marker.length,
+      end: end - marker.length,
+    };
+  }
+  const text = value.slice(start, end) || placeholder;
+  return {
+    value: `${before}${marker}${text}${marker}${after}`,
+    start: start + marker.length,
+    end: start + marker.length + text.length,
+  };
+}
+
+type LineFormat = Exclude<MarkdownFormat, 'bold' | 'italic' | 'link'>;
+
+const LINE_FORMATS: Record<LineFormat, { pattern: RegExp; prefix: (index: number) => string }> = {
+  heading: { pattern: /^#{1,6}\s+/, prefix: () => '## ' },
+  bullet: { pattern: /^[-*+]\s+(?!\[[ xX]\])/, prefix: () => '- ' },
+  numbered: { pattern: /^\d+[.)]\s+/, prefix: (index) => `${index + 1}. ` },
+  checkbox: { pattern: /^[-*+]\s+\[[ xX]\]\s+/, prefix: () => '- [ ] ' },
+  quote: { pattern: /^>\s?/, prefix: () => '> ' },
+};
+
+// Any list, heading or quote marker a line already has; it is replaced when the line gets another one
+const ANY_PREFIX = /^(#{1,6}\s+|[-*+]\s+\[[ xX]\]\s+|[-*+]\s+|\d+[.)]\s+|>\s?)/;
+
+// Adds a prefix to every line the selection touches, or removes it when they all have it already
+function toggleLinePrefix({ value, start, end }: TextSelection, format: LineFormat): TextSelection {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const { pattern, prefix } = LINE_FORMATS[format];
+
+  const remove = lines.every((line) => pattern.test(line));
+  const updated = lines
+    .map((line, index) => (remove ? '' : prefix(index)) + line.replace(ANY_PREFIX, ''))
+    .join('\n');
+
+  // With nothing selected the caret goes to the end of the line, ready to keep typing
+  return {
+    value: value.slice(0, lineStart) + updated + value.slice(lineEnd),
+    start: start === end ? lineStart + updated.length : lineStart,
+    end: lineStart + updated.length,
+  };
+}
+
+function insertLink({ value, start, end }: TextSelection): TextSelection {
+  const text = value.slice(start, end) || 'link';
+  const link = `[${text}](https://)`;
+  const urlStart = start + text.length + 3;
+  // Leaves "https://" selected so typing the address replaces it
+  return { value: value.slice(0, start) + link + value.slice(end), start: urlStart, end: urlStart + 'https://'.length };
+}
+
+export function applyMarkdownFormat(selection: TextSelection, format: MarkdownFormat): TextSelection {
+  switch (format) {
+    case 'bold':
+      return toggleWrap(selection, '**', 'bold text');
+    case 'italic':
+      return toggleWrap(selection, '*', 'italic text');
+    case 'link':
+      return insertLink(selection);
+    default:
+      return toggleLinePrefix(selection, format);
+  }
+}
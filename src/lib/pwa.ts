@@ -0,0 +1,31 @@
+// Shared between the app and the service worker (src/sw.ts).
+
+/** Cache holding the last `/entries` responses, for reading while the API can't be reached */
+export const API_CACHE = 'ink-api';
+
+/** Background Sync tag registered while the outbox has changes waiting for a connection */
+export const OUTBOX_SYNC_TAG = 'ink-outbox';
+
+/** Sent by the service worker to ask a window to send the outbox; answered on the message port with `{ ok }` */
+export const SYNC_OUTBOX_MESSAGE = 'ink:sync-outbox';
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+/** Asks the browser to wake the service worker once it's back online. Not every browser has Background Sync. */
+export async function requestOutboxSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    await (registration as ServiceWorkerRegistration & { sync?: SyncManager }).sync?.register(OUTBOX_SYNC_TAG);
+  } catch {
+    // Without it the app still syncs on the `online` event and when it is opened
+  }
+}
+
+// Cached responses belong to the account that fetched them
+export async function clearApiCache(): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  await caches.delete(API_CACHE).catch(() => false);
+}
@@ -0,0 +1,48 @@
+// Understands the handful of date phrases people type into the command palette:
+// "today", "yesterday", "3 days ago", "last monday", "friday", "oct 3", "2026-10-03".
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const daysBefore = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - days);
+
+/**
+ * Returns local midnight of the day described by `text`, or null. Only today and past days are
+ * returned since entries can't be written for the future.
+ */
+export function parseRelativeDate(text: string, now = new Date()): Date | null {
+  const input = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!input) return null;
+  const today = startOfDay(now);
+
+  if (input === 'today') return today;
+  if (input === 'yesterday') return daysBefore(today, 1);
+
+  const ago = input.match(/^(\d{1,3}) days? ago$/);
+  if (ago) return daysBefore(today, Number(ago[1]));
+
+  const weekday = input.match(/^(last )?([a-z]+)$/);
+  if (weekday) {
+    const index = WEEKDAYS.findIndex((day) => day.startsWith(weekday[2]) && weekday[2].length >= 3);
+    if (index !== -1) {
+      let diff = (today.getDay() - index + 7) % 7;
+      // "friday" on a Friday means today; "last friday" means a week ago
+      if (weekday[1] && diff === 0) diff = 7;
+      return daysBefore(today, diff);
+    }
+  }
+
+  const iso = input.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const parsed = iso
+    ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    : /[a-z]/.test(input) && /\d/.test(input)
+      ? new Date(`${input} ${today.getFullYear()}`)
+      : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) return null;
+
+  let result = startOfDay(parsed);
+  // "dec 30" typed in January means last December
+  if (!iso && result > today) result = new Date(result.getFullYear() - 1, result.getMonth(), result.getDate());
+  return result > today ? null : result;
+}
@@ -0,0 +1,106 @@
+// Client-side counterpart of the server's full-text search, used when the API can't be reached.
+// It understands the same syntax ("phrases", prefix*, -exclusions) but matches words rather than stems.
+
+import type { JournalEntry } from '../App';
+import { localDateKey } from '../shared/dates';
+
+export const MARK_OPEN = '<mark>';
+export const MARK_CLOSE = '</mark>';
+
+export interface SearchFilters {
+  moods: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface SearchHit {
+  entry: JournalEntry;
+  snippet: string;
+}
+
+interface LocalTerm {
+  pattern: RegExp;
+  negated: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SNIPPET_RADIUS = 80;
+
+// Unicode-aware word boundaries; \b only knows ASCII letters
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+function parseLocalQuery(q: string): LocalTerm[] {
+  const terms: LocalTerm[] = [];
+  const pattern = /(-?)"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(q)) !== null) {
+    if (match[2] !== undefined) {
+      const words = match[2].trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+      if (words.length) {
+        terms.push({ pattern: new RegExp(`${WORD_START}${words.join('\\s+')}${WORD_END}`, 'iu'), negated: match[1] === '-' });
+      }
+      continue;
+    }
+    let token = match[3];
+    const negated = token.startsWith('-') && token.length > 1;
+    if (negated) token = token.slice(1);
+    const isPrefix = token.endsWith('*');
+    const word = token.replace(/[^\p{L}\p{N}]+/gu, '');
+    if (!word) continue;
+    // Plain words also match simple inflections ("interview" finds "interviewing")
+    const suffix = isPrefix ? `${WORD_CHAR}*` : `${WORD_CHAR}{0,3}`;
+    terms.push({ pattern: new RegExp(`${WORD_START}${escapeRegExp(word)}${suffix}${WORD_END}`, 'iu'), negated });
+  }
+  return terms;
+}
+
+const withGlobal = (pattern: RegExp) => new RegExp(pattern.source, 'giu');
+
+function buildSnippet(content: string, positives: LocalTerm[]): string {
+  const first = positives
+    .map((term) => content.search(term.pattern))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(content.length, first + SNIPPET_RADIUS * 2);
+  let snippet = content.slice(start, end).replace(/\s+/g, ' ').trim();
+  for (const term of positives) {
+    snippet = snippet.replace(withGlobal(term.pattern), (m) => `${MARK_OPEN}${m}${MARK_CLOSE}`);
+  }
+  return `${start > 0 ? '… ' : ''}${snippet}${end < content.length ? ' …' : ''}`;
+}
+
+export function searchLocalEntries(entries: JournalEntry[], q: string, filters: SearchFilters): SearchHit[] {
+  const terms = parseLocalQuery(q);
+  const positives = terms.filter((term) => !term.negated);
+  if (!positives.length) return [];
+
+  return entries
+    .filter((entry) => {
+      if (filters.moods.length && !(entry.mood && filters.moods.includes(entry.mood))) return false;
+      if (filters.from && entry.entryDate < localDateKey(filters.from)) return false;
+      if (filters.to && entry.entryDate > localDateKey(filters.to)) return false;
+      return terms.every((term) => term.pattern.test(entry.content) !== term.negated);
+    })
+    .map((entry) => ({
+      entry,
+      score: positives.reduce((sum, term) => sum + (entry.content.match(withGlobal(term.pattern))?.length ?? 0), 0),
+    }))
+    .sort((a, b) => b.score - a.score || b.entry.date.getTime() - a.entry.date.getTime())
+    .map(({ entry }) => ({ entry, snippet: buildSnippet(entry.content, positives) }));
+}
+
+// Splits a snippet into plain and highlighted parts so it can be rendered without innerHTML
+export function splitHighlights(snippet: string): { text: string; highlighted: boolean }[] {
+  return snippet
+    .split(new RegExp(`(${escapeRegExp(MARK_OPEN)}[\\s\\S]*?${escapeRegExp(MARK_CLOSE)})`))
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith(MARK_OPEN) && part.endsWith(MARK_CLOSE)
+        ? { text: part.slice(MARK_OPEN.length, -MARK_CLOSE.length), highlighted: true }
+        : { text: part, highlighted: false }
+    );
+}
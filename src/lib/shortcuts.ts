@@ -0,0 +1,110 @@
+// Every keyboard shortcut in the app is declared here and dispatched from a single window listener.
+// Components bind handlers with useShortcuts; they never add their own keydown listeners.
+
+import { useEffect, useRef } from 'react';
+
+interface ShortcutDefinition {
+  keys: string; // "mod+k", "shift+/", "n"; mod is Cmd on Apple platforms and Ctrl elsewhere
+  description: string;
+  allowInInputs?: boolean;
+  // Only fires while focus is inside an element marked data-shortcut-scope with this name
+  scope?: ShortcutScope;
+}
+
+type ShortcutScope = 'editor';
+
+export const SHORTCUTS = {
+  commandPalette: { keys: 'mod+k', description: 'Open command palette', allowInInputs: true },
+  newEntry: { keys: 'n', description: 'New entry' },
+  search: { keys: '/', description: 'Search entries' },
+  // Link is not mod+k, which opens the command palette from the editor too
+  bold: { keys: 'mod+b', description: 'Bold', scope: 'editor' },
+  italic: { keys: 'mod+i', description: 'Italic', scope: 'editor' },
+  link: { keys: 'mod+shift+k', description: 'Link', scope: 'editor' },
+} satisfies Record<string, ShortcutDefinition>;
+
+export type ShortcutId = keyof typeof SHORTCUTS;
+
+type Handler = () => void;
+
+const isApple = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const handlers = new Map<ShortcutId, Handler[]>();
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+function matches(keys: string, event: KeyboardEvent): boolean {
+  const parts = keys.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const wantsMod = parts.includes('mod');
+  const wantsShift = parts.includes('shift');
+  const modPressed = isApple() ? event.metaKey : event.ctrlKey;
+  const otherModPressed = isApple() ? event.ctrlKey : event.metaKey;
+  return (
+    event.key.toLowerCase() === key &&
+    modPressed === wantsMod &&
+    !otherModPressed &&
+    !event.altKey &&
+    // "/" and "?" already imply shift on many layouts, so only enforce it when asked for. With mod it tells
+    // shortcuts apart: "mod+k" doesn't fire for "mod+shift+k".
+    (wantsShift ? event.shiftKey : !(wantsMod && event.shiftKey))
+  );
+}
+
+const inScope = (scope: ShortcutScope, target: EventTarget | null) =>
+  target instanceof Element && !!target.closest(`[data-shortcut-scope="${scope}"]`);
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (event.defaultPrevented || event.isComposing) return;
+  for (const [id, definition] of Object.entries(SHORTCUTS) as [ShortcutId, ShortcutDefinition][]) {
+    if (!matches(definition.keys, event)) continue;
+    const allowed = definition.scope
+      ? inScope(definition.scope, event.target)
+      : definition.allowInInputs || !isTypingTarget(event.target);
+    if (!allowed) continue;
+    // The most recently mounted binding wins, so a screen can take over a global shortcut
+    const bound = handlers.get(id) ?? [];
+    const handler = bound[bound.length - 1];
+    if (!handler) continue;
+    event.preventDefault();
+    handler();
+    return;
+  }
+}
+
+let listening = false;
+
+function bind(id: ShortcutId, handler: Handler): () => void {
+  if (!listening) {
+    window.addEventListener('keydown', handleKeyDown);
+    listening = true;
+  }
+  handlers.set(id, [...(handlers.get(id) ?? []), handler]);
+  return () => handlers.set(id, (handlers.get(id) ?? []).filter((h) => h !== handler));
+}
+
+export function useShortcuts(bindings: Partial<Record<ShortcutId, Handler>>): void {
+  // Keep the latest closures without re-binding on every render
+  const latest = useRef(bindings);
+  latest.current = bindings;
+
+  const ids = Object.keys(bindings).sort().join(',');
+  useEffect(() => {
+    const unbind = (ids ? (ids.split(',') as ShortcutId[]) : []).map((id) =>
+      bind(id, () => latest.current[id]?.())
+    );
+    return () => unbind.forEach((fn) => fn());
+  }, [ids]);
+}
+
+// "mod+k" → "⌘K" on Apple platforms, "Ctrl+K" elsewhere
+export function formatShortcut(id: ShortcutId): string {
+  const parts = SHORTCUTS[id].keys.split('+').map((part) => {
+    if (part === 'mod') return isApple() ? '⌘' : 'Ctrl';
+    if (part === 'shift') return isApple() ? '⇧' : 'Shift';
+    return part.toUpperCase();
+  });
+  return parts.join(isApple() ? '' : '+');
+}
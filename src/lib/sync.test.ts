@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalEntry } from '../App';
+import { fromServerEntry, mergeEntryChanges, reconcileImport, type ServerEntry } from './sync';
+
+const serverEntry = (id: string, overrides: Partial<ServerEntry> = {}): ServerEntry => ({
+  id,
+  journalId: 'journal-1',
+  content: `server ${id}`,
+  moodEmoji: null,
+  tags: [],
+  entryDate: '2026-10-01T00:00:00.000Z',
+  timeZone: 'UTC',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  updatedAt: '2026-10-01T09:00:00.000Z',
+  deletedAt: null,
+  version: 1,
+  ...overrides,
+});
+
+const localEntry = (id: string, overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  date: new Date('2026-10-02T09:00:00.000Z'),
+  entryDate: '2026-10-02',
+  timeZone: 'UTC',
+  content: `local ${id}`,
+  createdAt: new Date('2026-10-02T09:00:00.000Z'),
+  ...overrides,
+});
+
+const ids = (entries: JournalEntry[]) => entries.map((entry) => entry.id).sort();
+
+describe('mergeEntryChanges', () => {
+  it('applies updates, trashing and tombstones, newest first', () => {
+    const local = [
+      localEntry('a', { version: 1 }),
+      localEntry('trashed', { version: 1 }),
+      localEntry('purged', { version: 1 }),
+    ];
+    const merged = mergeEntryChanges(
+      local,
+      {
+        entries: [
+          serverEntry('a', { version: 2, content: 'edited elsewhere' }),
+          serverEntry('trashed', { deletedAt: '2026-10-03T00:00:00.000Z' }),
+          serverEntry('new', { createdAt: '2026-10-05T09:00:00.000Z', entryDate: '2026-10-05T00:00:00.000Z' }),
+        ],
+        tombstones: [{ id: 'purged', deletedAt: '2026-10-03T00:00:00.000Z' }],
+      },
+      new Set(),
+      false
+    );
+    expect(merged.map((entry) => entry.id)).toEqual(['new', 'a']);
+    expect(merged[1]).toMatchObject({ content: 'edited elsewhere', version: 2 });
+  });
+
+  it('leaves entries with queued changes alone', () => {
+    const local = [localEntry('a', { version: 1, content: 'not sent yet' })];
+    const changes = { entries: [serverEntry('a', { deletedAt: '2026-10-03T00:00:00.000Z' })], tombstones: [] };
+    expect(mergeEntryChanges(local, changes, new Set(['a']), false)).toEqual(local);
+  });
+
+  it('keeps the local time of an entry that stays on the same day', () => {
+    const date = new Date(2026, 9, 2, 21, 45, 12, 345);
+    const merged = mergeEntryChanges(
+      [localEntry('a', { date, entryDate: '2026-10-02', version: 1 })],
+      { entries: [serverEntry('a', { entryDate: '2026-10-02T00:00:00.000Z', version: 2 })], tombstones: [] },
+      new Set(),
+      false
+    );
+    expect(merged[0].date).toBe(date);
+  });
+});
+
+describe('reconcileImport', () => {
+  it('takes the server copy of synced entries and adds ones only the server has', () => {
+    const entries = reconcileImport(
+      [localEntry('a', { version: 1, content: 'old' })],
+      [serverEntry('a', { version: 2, content: 'new' }), serverEntry('b')],
+      new Set()
+    );
+    expect(ids(entries)).toEqual(['a', 'b']);
+    expect(entries.find((entry) => entry.id === 'a')).toMatchObject({ content: 'new', version: 2 });
+  });
+
+  it('drops synced entries the server no longer has', () => {
+    expect(ids(reconcileImport([localEntry('gone', { version: 3 })], [serverEntry('a')], new Set()))).toEqual(['a']);
+  });
+
+  it('keeps queued entries and local changes over the server copy', () => {
+    const entries = reconcileImport(
+      [localEntry('queued', { version: 1 }), localEntry('a', { version: 1, content: 'edited here' })],
+      [serverEntry('a', { version: 2 })],
+      new Set(['queued', 'a'])
+    );
+    expect(ids(entries)).toEqual(['a', 'queued']);
+    expect(entries.find((entry) => entry.id === 'a')).toMatchObject({ content: 'edited here', version: 1 });
+  });
+
+  // Uploading them is up to the user (see addLocalEntries), so an import never sends another account's journal
+  it('leaves entries that never synced on the device without queuing them', () => {
+    const entries = reconcileImport([localEntry('guest')], [serverEntry('a')], new Set());
+    expect(ids(entries)).toEqual(['a', 'guest']);
+    expect(entries.find((entry) => entry.id === 'guest')?.version).toBeUndefined();
+  });
+
+  it('gives legacy entries the id of the server copy they were uploaded as', () => {
+    const createdAt = new Date('2026-09-30T08:15:00.000Z');
+    const entries = reconcileImport(
+      [localEntry('1696061700000', { createdAt })],
+      [serverEntry('uploaded', { createdAt: createdAt.toISOString() })],
+      new Set()
+    );
+    expect(ids(entries)).toEqual(['uploaded']);
+  });
+});
+
+describe('conflicts', () => {
+  it('keeps the local edit of an entry in conflict while the server version moves on', () => {
+    const local = [localEntry('a', { version: 1, content: 'mine' })];
+    const changes = { entries: [serverEntry('a', { version: 2, content: 'theirs' })], tombstones: [] };
+    expect(mergeEntryChanges(local, changes, new Set(['a']), false)[0]).toMatchObject({ content: 'mine', version: 1 });
+  });
+
+  it('takes the remote version as is when the user keeps theirs', () => {
+    const local = localEntry('a', { version: 1, content: 'mine', photos: ['blob:local'] });
+    const entry = fromServerEntry(serverEntry('a', { version: 3, content: 'theirs', moodEmoji: 'calm' }), local);
+    expect(entry).toMatchObject({ content: 'theirs', mood: 'calm', version: 3, createdAt: local.createdAt });
+    // Photos that were never uploaded stay with the entry
+    expect(entry.photos).toEqual(['blob:local']);
+  });
+});
+
+describe('restoring a revision', () => {
+  // The server saves the restore itself, so the entry is merged rather than queued as an update
+  it('takes the saved version, so the sync that follows has nothing to resolve', () => {
+    const local = [localEntry('a', { version: 2, content: 'edited' })];
+    const restored = serverEntry('a', { version: 3, content: 'original' });
+    const afterRestore = mergeEntryChanges(local, { entries: [restored], tombstones: [] }, new Set(), false);
+    expect(afterRestore[0]).toMatchObject({ content: 'original', version: 3 });
+
+    // The delta feed (and the event stream) bring the same change back
+    const changes = { entries: [restored], tombstones: [] };
+    expect(mergeEntryChanges(afterRestore, changes, new Set(), false)).toEqual(afterRestore);
+  });
+});
@@ -0,0 +1,675 @@
+// Offline-first entry sync. Local changes are applied immediately and queued in a per-user outbox
+// that is replayed against the API in order, retrying with backoff while offline. Server changes are
+// pulled from GET /entries/changes and merged into the local copy. Guests never sync.
+//
+// The first sync for an account on a device pages through GET /entries instead. Entries written as a guest
+// before signing in are only uploaded once the user chooses to add them to the account (see addLocalEntries).
+//
+// Changes made on other devices also arrive live over the event stream (see events.ts) and are merged
+// the same way as pulled changes.
+//
+// Updates carry the server version they were based on. When another device got there first the server
+// answers 409 and the edit is parked as a conflict until the user picks a version (see EntryConflictDialog).
+//
+// Photos go through the same outbox: each one is uploaded as an attachment once its entry exists on the
+// server, and attachments added on other devices are downloaded when the entry is pulled.
+//
+// While offline the browser is asked for a Background Sync; the service worker then messages this page
+// to send the outbox as soon as the connection is back, even if the page is in the background.
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { JournalEntry } from '../App';
+import { ApiError, apiFetch, apiRequest } from './api';
+import { onUserEvent } from './events';
+import { createId } from './ids';
+import {
+  createPhotoUrl,
+  findPhotoBlob,
+  findPhotoUrl,
+  getOutbox,
+  getPhotoBlob,
+  linkPhotoToAttachment,
+  updateOutbox,
+} from './localStore';
+import { requestOutboxSync, SYNC_OUTBOX_MESSAGE } from './pwa';
+import { extractHashtags } from '../shared/tags';
+import { localDateKey, parseDateKey } from '../shared/dates';
+
+export type SyncStatus = 'local' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+  conflicts: EntryConflict[];
+  importedCount: number | null; // Entries loaded so far while the journal is first imported, otherwise null
+}
+
+export type EntryMutation =
+  | { type: 'create' | 'update'; entry: JournalEntry }
+  | { type: 'delete' | 'restore'; entryId: string }
+  | { type: 'upload' | 'removePhoto'; entryId: string; photo: string };
+
+interface OutboxItem {
+  id: string;
+  type: EntryMutation['type'];
+  entryId: string;
+  body?: Record<string, unknown>;
+  queuedAt: string;
+}
+
+export interface ServerEntry {
+  id: string;
+  journalId: string;
+  content: string;
+  moodEmoji: string | null;
+  tags: { id: string; name: string }[];
+  entryDate: string; // A DATE column, so it arrives as midnight UTC
+  timeZone: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+  version: number;
+  attachments?: ServerAttachment[];
+}
+
+export interface ServerAttachment {
+  id: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+// An edit the server rejected because the entry changed elsewhere; `local` is what this device wanted to save
+export interface EntryConflict {
+  entryId: string;
+  local: { content: string; mood?: string };
+  remote: ServerEntry;
+  detectedAt: string;
+}
+
+// Content and mood to keep, or null to take the remote version as is
+export type ConflictResolution = { content: string; mood?: string } | null;
+
+interface EntryPage {
+  entries: ServerEntry[];
+  nextCursor: string | null;
+  syncCursor: string;
+}
+
+interface EntryChanges {
+  entries: ServerEntry[];
+  tombstones: { id: string; deletedAt: string }[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+const IMPORT_PAGE_SIZE = 100;
+const POLL_INTERVAL_MS = 60 * 1000;
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Ids from before entries had client-generated ids; they never matched anything on the server
+const LEGACY_ID_PATTERN = /^\d+$/;
+
+const CURSOR_PREFIX = 'ink_sync_cursor:';
+const CONFLICTS_PREFIX = 'ink_conflicts:';
+const OUTBOX_LOCK_PREFIX = 'ink-outbox:';
+
+// Tabs share the outbox, so it is replayed by one tab at a time (a Web Lock, like token refreshes). A tab that
+// waited reads the outbox afresh and finds what the other one sent gone, instead of sending it again.
+const withOutboxLock = async (userId: string, run: () => Promise<void>): Promise<void> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? await navigator.locks.request(`${OUTBOX_LOCK_PREFIX}${userId}`, run)
+    : run();
+
+const cursorKey = (userId: string) => `${CURSOR_PREFIX}${userId}`;
+const conflictsKey = (userId: string) => `${CONFLICTS_PREFIX}${userId}`;
+
+const loadConflicts = (userId: string): EntryConflict[] => {
+  try {
+    return JSON.parse(localStorage.getItem(conflictsKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveConflicts = (userId: string, conflicts: EntryConflict[]) => {
+  try {
+    localStorage.setItem(conflictsKey(userId), JSON.stringify(conflicts));
+  } catch (error) {
+    console.error('Failed to save sync conflicts:', error);
+  }
+};
+
+const loadCursor = (userId: string) => localStorage.getItem(cursorKey(userId));
+
+// Entries the server copy mustn't overwrite: queued changes and unresolved conflicts
+const getPendingIds = async (userId: string) =>
+  new Set([
+    ...(await getOutbox<OutboxItem>(userId)).map((item) => item.entryId),
+    ...loadConflicts(userId).map((conflict) => conflict.entryId),
+  ]);
+
+const saveCursor = (userId: string, cursor: string) => {
+  try {
+    localStorage.setItem(cursorKey(userId), cursor);
+  } catch {
+    // ignore cache errors; the next sync just starts over
+  }
+};
+
+// Forgets every account's sync progress, for when the journal on this device is deleted. Without a cursor the
+// next sign-in imports the whole journal again instead of only what changed since.
+export function clearSyncState(): void {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(CURSOR_PREFIX) || key.startsWith(CONFLICTS_PREFIX))
+    .forEach((key) => localStorage.removeItem(key));
+}
+
+/** Local entries the account has never seen: written as a guest, so neither synced nor queued for it. */
+export async function findGuestEntries(userId: string, entries: JournalEntry[]): Promise<JournalEntry[]> {
+  const pendingIds = await getPendingIds(userId);
+  return entries.filter((entry) => entry.version === undefined && !pendingIds.has(entry.id));
+}
+
+const entryBody = (entry: JournalEntry) => ({
+  content: entry.content,
+  moodEmoji: entry.mood ?? null,
+  tags: entry.tags ?? [],
+  journalId: entry.journalId,
+});
+
+function toOutboxItem(mutation: EntryMutation): OutboxItem {
+  const base = { id: createId(), type: mutation.type, queuedAt: new Date().toISOString() };
+  switch (mutation.type) {
+    case 'create':
+      return {
+        ...base,
+        entryId: mutation.entry.id,
+        body: {
+          id: mutation.entry.id,
+          ...entryBody(mutation.entry),
+          entryDate: mutation.entry.entryDate,
+          timeZone: mutation.entry.timeZone,
+          createdAt: mutation.entry.createdAt.toISOString(),
+        },
+      };
+    case 'update':
+      return { ...base, entryId: mutation.entry.id, body: { ...entryBody(mutation.entry), version: mutation.entry.version } };
+    case 'upload':
+    case 'removePhoto': {
+      // Object URLs don't survive a reload, so the photo is referred to by its stored blob
+      const photo = getPhotoBlob(mutation.photo);
+      return { ...base, entryId: mutation.entryId, body: { blobId: photo?.id, attachmentId: photo?.attachmentId } };
+    }
+    default:
+      return { ...base, entryId: mutation.entryId };
+  }
+}
+
+async function uploadPhoto(item: OutboxItem): Promise<void> {
+  const photo = findPhotoBlob(item.body?.blobId as string);
+  // Gone (the photo was removed again before it was sent) or already uploaded
+  if (!photo || photo.attachmentId) return;
+  const form = new FormData();
+  form.append('photos', photo.blob, 'photo');
+  const { attachments } = await apiRequest<{ attachments: ServerAttachment[] }>(`/entries/${item.entryId}/attachments`, {
+    method: 'POST',
+    body: form,
+  });
+  await linkPhotoToAttachment(photo.id, attachments[0].id);
+}
+
+async function removePhoto(item: OutboxItem): Promise<void> {
+  const attachmentId = (item.body?.attachmentId as string | undefined) ?? findPhotoBlob(item.body?.blobId as string)?.attachmentId;
+  // Never uploaded, so there is nothing to remove on the server
+  if (!attachmentId) return;
+  await apiRequest(`/entries/${item.entryId}/attachments/${attachmentId}`, { method: 'DELETE' });
+}
+
+function sendOutboxItem(item: OutboxItem): Promise<ServerEntry | unknown> {
+  const body = item.body ? JSON.stringify(item.body) : undefined;
+  switch (item.type) {
+    case 'upload':
+      return uploadPhoto(item);
+    case 'removePhoto':
+      return removePhoto(item);
+    case 'create':
+      return apiRequest('/entries', { method: 'POST', body });
+    case 'update':
+      return apiRequest(`/entries/${item.entryId}`, { method: 'PATCH', body });
+    case 'delete':
+      return apiRequest(`/entries/${item.entryId}`, { method: 'DELETE' });
+    case 'restore':
+      return apiRequest(`/entries/trash/${item.entryId}/restore`, { method: 'POST' });
+  }
+}
+
+// A rejected request will be rejected again, so it is dropped instead of blocking the queue
+const isPermanentFailure = (err: unknown) =>
+  err instanceof ApiError && err.status >= 400 && err.status < 500 && ![401, 408, 429].includes(err.status);
+
+const isConflict = (err: unknown, item: OutboxItem) =>
+  item.type === 'update' && err instanceof ApiError && err.status === 409 && Boolean(err.data?.current);
+
+const isOfflineError = (err: unknown) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) || !(err instanceof ApiError) || err.status >= 500;
+
+/**
+ * The date shown for an entry from the server: when it was written, unless that was on another day than the
+ * one it is for (a backdated entry), which is then shown at midnight as when backdating on this device.
+ */
+export function entryDisplayDate(createdAt: Date, entryDate: string): Date {
+  return localDateKey(createdAt) === entryDate ? createdAt : parseDateKey(entryDate);
+}
+
+export function fromServerEntry(server: ServerEntry, existing?: JournalEntry): JournalEntry {
+  // Photos that were uploaded but are no longer attached were removed on another device. Photos not yet
+  // uploaded stay, and new attachments are added once downloaded (see downloadPhotos).
+  const attachmentIds = new Set(server.attachments?.map((attachment) => attachment.id));
+  const photos = existing?.photos?.filter((url) => {
+    const attachmentId = getPhotoBlob(url)?.attachmentId;
+    return !attachmentId || !server.attachments || attachmentIds.has(attachmentId);
+  });
+  const entryDate = server.entryDate.slice(0, 10);
+  return {
+    id: server.id,
+    // The local date keeps its original precision, as long as the entry wasn't moved to another day
+    date: existing?.entryDate === entryDate ? existing.date : entryDisplayDate(new Date(server.createdAt), entryDate),
+    entryDate,
+    timeZone: server.timeZone,
+    journalId: server.journalId,
+    content: server.content,
+    mood: server.moodEmoji ?? undefined,
+    tags: server.tags.map((tag) => tag.name),
+    createdAt: existing?.createdAt ?? new Date(server.createdAt),
+    photos,
+    version: server.version,
+  };
+}
+
+// Fetches attachments this device doesn't have yet, handing each one over as soon as it is downloaded
+async function downloadPhotos(
+  entries: ServerEntry[],
+  pendingIds: Set<string>,
+  addPhoto: (entryId: string, url: string) => void
+): Promise<void> {
+  for (const entry of entries) {
+    if (entry.deletedAt || pendingIds.has(entry.id)) continue;
+    for (const attachment of entry.attachments ?? []) {
+      if (findPhotoUrl(attachment.id)) continue;
+      const response = await apiFetch(`/attachments/${attachment.id}`);
+      // Removed since the page was fetched; the next pull drops it from the entry
+      if (response.status === 404) continue;
+      if (!response.ok) throw new ApiError(response.status, 'Photo download failed');
+      addPhoto(entry.id, createPhotoUrl(await response.blob(), attachment.id));
+    }
+  }
+}
+
+/**
+ * Applies a page of server changes to the local entries. Entries with unsent local changes are left
+ * alone; the outbox will overwrite the server copy. During the first sync, legacy local entries are
+ * matched to the server copy they were uploaded as (same timestamp) and take over its id.
+ */
+export function mergeEntryChanges(
+  local: JournalEntry[],
+  changes: Pick<EntryChanges, 'entries' | 'tombstones'>,
+  pendingIds: Set<string>,
+  isInitialSync: boolean
+): JournalEntry[] {
+  const byId = new Map(local.map((entry) => [entry.id, entry]));
+
+  if (isInitialSync) {
+    const unmatched = changes.entries.filter((entry) => !byId.has(entry.id));
+    const serverIdByTime = new Map(unmatched.map((entry) => [new Date(entry.createdAt).getTime(), entry.id]));
+    for (const entry of local) {
+      if (!LEGACY_ID_PATTERN.test(entry.id)) continue;
+      const serverId = serverIdByTime.get(entry.createdAt.getTime());
+      if (!serverId) continue;
+      serverIdByTime.delete(entry.createdAt.getTime());
+      byId.delete(entry.id);
+      byId.set(serverId, { ...entry, id: serverId });
+    }
+  }
+
+  for (const server of changes.entries) {
+    if (pendingIds.has(server.id)) continue;
+    if (server.deletedAt) byId.delete(server.id);
+    else byId.set(server.id, fromServerEntry(server, byId.get(server.id)));
+  }
+  for (const tombstone of changes.tombstones) byId.delete(tombstone.id);
+
+  return Array.from(byId.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Reconciles the local entries with the complete journal fetched by an import. Entries that were synced
+ * before but aren't on the server any more were trashed or deleted elsewhere and are dropped. Entries that
+ * never reached the server stay as they are; nothing is uploaded unless it was queued.
+ */
+export function reconcileImport(local: JournalEntry[], server: ServerEntry[], pendingIds: Set<string>): JournalEntry[] {
+  const merged = mergeEntryChanges(local, { entries: server, tombstones: [] }, pendingIds, true);
+  const serverIds = new Set(server.map((entry) => entry.id));
+  return merged.filter((entry) => serverIds.has(entry.id) || pendingIds.has(entry.id) || entry.version === undefined);
+}
+
+/**
+ * Keeps the entries behind `setEntries` in sync with the server for a signed-in user. Call `enqueue`
+ * after every local change; with a null userId (guests, signed out) it does nothing and the status stays 'local'.
+ */
+export function useEntrySync(userId: string | null, setEntries: Dispatch<SetStateAction<JournalEntry[]>>) {
+  const [state, setState] = useState<SyncState>({
+    status: 'local',
+    pendingCount: 0,
+    lastSyncedAt: null,
+    conflicts: [],
+    importedCount: null,
+  });
+  const running = useRef(false);
+  const rerun = useRef(false);
+  const failures = useRef(0);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setPendingCount = useCallback((pendingCount: number) => setState((prev) => ({ ...prev, pendingCount })), []);
+
+  const setConflicts = useCallback(
+    (conflicts: EntryConflict[]) => {
+      if (userId) saveConflicts(userId, conflicts);
+      setState((prev) => ({ ...prev, conflicts }));
+    },
+    [userId]
+  );
+
+  // Takes the rejected edit, and any edits queued on top of it, out of the outbox
+  const parkConflict = useCallback(
+    async (item: OutboxItem, remote: ServerEntry) => {
+      if (!userId) return;
+      const isRelated = (queued: OutboxItem) => queued.entryId === item.entryId && queued.type === 'update';
+      let latest = item;
+      const remaining = await updateOutbox<OutboxItem>(userId, (outbox) => {
+        latest = outbox.filter(isRelated).pop() ?? item;
+        return outbox.filter((queued) => !isRelated(queued));
+      });
+      setPendingCount(remaining.length);
+
+      const conflict: EntryConflict = {
+        entryId: item.entryId,
+        local: { content: latest.body?.content as string, mood: (latest.body?.moodEmoji as string | null) ?? undefined },
+        remote,
+        detectedAt: new Date().toISOString(),
+      };
+      setConflicts([...loadConflicts(userId).filter((c) => c.entryId !== item.entryId), conflict]);
+    },
+    [userId, setPendingCount, setConflicts]
+  );
+
+  const addPhoto = useCallback(
+    (entryId: string, url: string) =>
+      setEntries((prev) =>
+        prev.map((entry) => (entry.id === entryId ? { ...entry, photos: [...(entry.photos ?? []), url] } : entry))
+      ),
+    [setEntries]
+  );
+
+  // Loads the whole journal page by page. Resolves to the cursor delta sync continues from.
+  const importJournal = useCallback(
+    async (userId: string): Promise<string> => {
+      const server: ServerEntry[] = [];
+      let syncCursor: string | null = null;
+      let nextCursor: string | null = null;
+      setState((prev) => ({ ...prev, importedCount: 0 }));
+      try {
+        do {
+          const page: EntryPage = await apiRequest<EntryPage>(
+            `/entries?limit=${IMPORT_PAGE_SIZE}${nextCursor ? `&cursor=${encodeURIComponent(nextCursor)}` : ''}`
+          );
+          syncCursor ??= page.syncCursor;
+          server.push(...page.entries);
+          // Merged as pages arrive, so a large journal fills in while the rest loads
+          const pendingIds = await getPendingIds(userId);
+          setEntries((prev) => mergeEntryChanges(prev, { entries: page.entries, tombstones: [] }, pendingIds, true));
+          await downloadPhotos(page.entries, pendingIds, addPhoto);
+          setState((prev) => ({ ...prev, importedCount: server.length }));
+          nextCursor = page.nextCursor;
+        } while (nextCursor);
+      } finally {
+        setState((prev) => ({ ...prev, importedCount: null }));
+      }
+
+      const pendingIds = await getPendingIds(userId);
+      setEntries((prev) => reconcileImport(prev, server, pendingIds));
+      return syncCursor!;
+    },
+    [setEntries, addPhoto]
+  );
+
+  const sync = useCallback(async (): Promise<void> => {
+    if (!userId) return;
+    if (running.current) {
+      rerun.current = true;
+      return;
+    }
+    running.current = true;
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    setState((prev) => ({ ...prev, status: 'syncing' }));
+
+    try {
+      // Push: replay the outbox in order, one mutation at a time, holding the outbox lock
+      await withOutboxLock(userId, async () => {
+        for (let [item] = await getOutbox<OutboxItem>(userId); item; [item] = await getOutbox<OutboxItem>(userId)) {
+          let saved: ServerEntry | null = null;
+          try {
+            const response = await sendOutboxItem(item);
+            if (item.type === 'create' || item.type === 'update') saved = response as ServerEntry;
+          } catch (err) {
+            if (isConflict(err, item)) {
+              await parkConflict(item, (err as ApiError).data.current);
+              continue;
+            }
+            if (!isPermanentFailure(err)) throw err;
+            console.error(`Dropping ${item.type} for entry ${item.entryId}:`, err);
+          }
+
+          const sent = item;
+          const remaining = await updateOutbox<OutboxItem>(userId, (outbox) => {
+            const rest = outbox.filter((queued) => queued.id !== sent.id);
+            if (!saved) return rest;
+            const { id, version } = saved;
+            // Later edits were made on top of this one, so they are based on the version it produced
+            return rest.map((queued) =>
+              queued.entryId === id && queued.type === 'update'
+                ? { ...queued, body: { ...queued.body, version } }
+                : queued
+            );
+          });
+          if (saved) {
+            const { id, version } = saved;
+            setEntries((prev) => prev.map((entry) => (entry.id === id ? { ...entry, version } : entry)));
+          }
+          setPendingCount(remaining.length);
+        }
+        // Another tab may have sent what this one counted while it waited for the lock
+        setPendingCount(0);
+      });
+
+      // Pull: import the journal the first time, then page through everything changed since the last sync
+      let cursor = loadCursor(userId) ?? (await importJournal(userId));
+      saveCursor(userId, cursor);
+      let hasMore = true;
+      while (hasMore) {
+        const changes = await apiRequest<EntryChanges>(`/entries/changes?since=${encodeURIComponent(cursor)}`);
+        const pendingIds = await getPendingIds(userId);
+        setEntries((prev) => mergeEntryChanges(prev, changes, pendingIds, false));
+        // Before the cursor moves on, so a failed download is retried with the same page
+        await downloadPhotos(changes.entries, pendingIds, addPhoto);
+        cursor = changes.cursor;
+        saveCursor(userId, cursor);
+        hasMore = changes.hasMore;
+      }
+
+      failures.current = 0;
+      setState((prev) => ({ ...prev, status: 'synced', lastSyncedAt: new Date() }));
+    } catch (err) {
+      failures.current += 1;
+      const delay = Math.min(RETRY_BASE_MS * 2 ** (failures.current - 1), RETRY_MAX_MS);
+      retryTimer.current = setTimeout(() => void sync(), delay);
+      if (!isOfflineError(err)) console.error('Sync failed:', err);
+      else void requestOutboxSync();
+      setState((prev) => ({ ...prev, status: isOfflineError(err) ? 'offline' : 'error' }));
+    } finally {
+      running.current = false;
+      if (rerun.current) {
+        rerun.current = false;
+        void sync();
+      }
+    }
+  }, [userId, setEntries, setPendingCount, parkConflict, importJournal, addPhoto]);
+
+  useEffect(() => {
+    if (!userId) return;
+    return onUserEvent(async (event) => {
+      switch (event.type) {
+        // (Re)connected, or too much changed to send one by one: fetch the delta
+        case 'ready':
+        case 'entries.changed':
+          void sync();
+          return;
+        case 'entry.created':
+        case 'entry.updated':
+        case 'entry.deleted': {
+          const pendingIds = await getPendingIds(userId);
+          const changes =
+            event.type === 'entry.deleted'
+              ? { entries: [], tombstones: [{ id: event.id, deletedAt: event.deletedAt }] }
+              : { entries: [event.entry], tombstones: [] };
+          setEntries((prev) => mergeEntryChanges(prev, changes, pendingIds, false));
+          await downloadPhotos(changes.entries, pendingIds, addPhoto).catch((error) =>
+            console.error('Failed to download photos:', error)
+          );
+        }
+      }
+    });
+  }, [userId, sync, setEntries, addPhoto]);
+
+  const enqueue = useCallback(
+    (mutation: EntryMutation) => {
+      if (!userId) return;
+      const item = toOutboxItem(mutation);
+      updateOutbox<OutboxItem>(userId, (outbox) => {
+        const last = outbox[outbox.length - 1];
+        // Consecutive edits of the same entry collapse into one request. The first item may already be
+        // on its way, so it is never changed.
+        if (
+          item.type === 'update' &&
+          outbox.length > 1 &&
+          last.entryId === item.entryId &&
+          (last.type === 'create' || last.type === 'update')
+        ) {
+          return [...outbox.slice(0, -1), { ...last, body: { ...last.body, ...item.body, version: last.body?.version } }];
+        }
+        return [...outbox, item];
+      })
+        .then((outbox) => {
+          setPendingCount(outbox.length);
+          void sync();
+        })
+        .catch((error) => console.error('Failed to queue change for sync:', error));
+    },
+    [userId, sync, setPendingCount]
+  );
+
+  // Takes in an entry the server saved outside the outbox (restoring a revision), the way changes pushed over
+  // /events are merged. Queuing it as an update would send the version it replaced and come back as a conflict.
+  const applyServerEntry = useCallback(
+    async (entry: ServerEntry) => {
+      if (!userId) return;
+      const pendingIds = await getPendingIds(userId);
+      setEntries((prev) => mergeEntryChanges(prev, { entries: [entry], tombstones: [] }, pendingIds, false));
+    },
+    [userId, setEntries]
+  );
+
+  // Uploads entries the user chose to bring into the account, such as those written as a guest
+  const addLocalEntries = useCallback(
+    (entries: JournalEntry[]) => {
+      if (!userId || entries.length === 0) return;
+      const items = entries.flatMap((entry) => [
+        toOutboxItem({ type: 'create', entry }),
+        ...(entry.photos ?? []).map((photo) => toOutboxItem({ type: 'upload', entryId: entry.id, photo })),
+      ]);
+      updateOutbox<OutboxItem>(userId, (outbox) => [...outbox, ...items])
+        .then((outbox) => {
+          setPendingCount(outbox.length);
+          void sync();
+        })
+        .catch((error) => console.error('Failed to queue entries for sync:', error));
+    },
+    [userId, sync, setPendingCount]
+  );
+
+  const resolveConflict = useCallback(
+    (entryId: string, resolution: ConflictResolution) => {
+      if (!userId) return;
+      const conflicts = loadConflicts(userId);
+      const conflict = conflicts.find((c) => c.entryId === entryId);
+      if (!conflict) return;
+      setConflicts(conflicts.filter((c) => c !== conflict));
+
+      if (!resolution) {
+        setEntries((prev) => prev.map((entry) => (entry.id === entryId ? fromServerEntry(conflict.remote, entry) : entry)));
+        return;
+      }
+      // Saved on top of the remote version, so it only conflicts again if the entry has changed once more
+      const changes = {
+        content: resolution.content,
+        mood: resolution.mood,
+        tags: extractHashtags(resolution.content),
+        version: conflict.remote.version,
+      };
+      setEntries((prev) => prev.map((entry) => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+      enqueue({ type: 'update', entry: { ...fromServerEntry(conflict.remote), ...changes } });
+    },
+    [userId, setEntries, setConflicts, enqueue]
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setState({ status: 'local', pendingCount: 0, lastSyncedAt: null, conflicts: [], importedCount: null });
+      return;
+    }
+    setState((prev) => ({ ...prev, conflicts: loadConflicts(userId) }));
+    getOutbox(userId).then((outbox) => setPendingCount(outbox.length), () => {});
+    void sync();
+
+    const onOnline = () => void sync();
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') void sync();
+    };
+    window.addEventListener('online', onOnline);
+    document.addEventListener('visibilitychange', onVisible);
+    const poll = setInterval(() => void sync(), POLL_INTERVAL_MS);
+    // Background Sync, relayed by the service worker; it is told whether everything went out
+    const onWorkerMessage = async (event: MessageEvent) => {
+      if (event.data?.type !== SYNC_OUTBOX_MESSAGE) return;
+      await sync();
+      const outbox = await getOutbox(userId).catch(() => null);
+      event.ports[0]?.postMessage({ ok: outbox?.length === 0 });
+    };
+    navigator.serviceWorker?.addEventListener('message', onWorkerMessage);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      document.removeEventListener('visibilitychange', onVisible);
+      navigator.serviceWorker?.removeEventListener('message', onWorkerMessage);
+      clearInterval(poll);
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, [userId, sync]);
+
+  return { ...state, enqueue, addLocalEntries, applyServerEntry, resolveConflict, syncNow: sync };
+}
+
+export type EntrySync = ReturnType<typeof useEntrySync>;
@@ -0,0 +1,16 @@
+import type { JournalEntry } from '../App';
+
+// Tags used across these entries, most used first
+export function collectTags(entries: JournalEntry[]): { name: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const tag of entry.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+// Entries carrying every selected tag; with nothing selected, everything matches
+export const filterEntriesByTags = (entries: JournalEntry[], selected: string[]) =>
+  selected.length ? entries.filter((entry) => selected.every((tag) => entry.tags?.includes(tag))) : entries;
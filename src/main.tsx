@@ -1,7 +1,21 @@
 
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
+  import { AuthProvider } from "./context/AuthContext";
+  import { MoodsProvider } from "./context/MoodsContext";
+  import { JournalsProvider } from "./context/JournalsContext";
+  import { SettingsProvider } from "./context/SettingsContext";
   import "./index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  createRoot(document.getElementById("root")!).render(
+    <AuthProvider>
+      <SettingsProvider>
+        <MoodsProvider>
+          <JournalsProvider>
+            <App />
+          </JournalsProvider>
+        </MoodsProvider>
+      </SettingsProvider>
+    </AuthProvider>
+  );
   
\ No newline at end of file
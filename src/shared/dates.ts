@@ -0,0 +1,82 @@
+// Calendar days and time zones shared by the React app and the API. An entry belongs to a calendar day
+// ("YYYY-MM-DD") in the IANA time zone it was written in, so it stays on that day wherever it is read.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Rejects well-formed but impossible days such as 2024-02-30
+export function isValidDateKey(key: string): boolean {
+  if (!DATE_KEY_PATTERN.test(key)) return false;
+  const date = dateKeyToUtc(key);
+  return !Number.isNaN(date.getTime()) && utcDateKey(date) === key;
+}
+
+// The zone this device is set to, e.g. "Europe/Berlin"
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+
+// Building a formatter is slow compared to using one, and there are only ever a few zones in play
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+  return parts;
+}
+
+// The calendar day an instant falls on in `timeZone`
+export function dateKeyInZone(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${month}-${day}`;
+}
+
+// The hour (0-23) on the wall clock in `timeZone` at that instant
+export const hourInZone = (date: Date, timeZone: string): number => Number(zonedParts(date, timeZone).hour);
+
+// The calendar day of a Date in this device's zone
+export function localDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+// Local midnight of a calendar day
+export function parseDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// Postgres DATE columns come back from Prisma as UTC midnight
+export const dateKeyToUtc = (key: string) => new Date(`${key}T00:00:00.000Z`);
+export const utcDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDaysToKey = (key: string, days: number): string => {
+  const date = dateKeyToUtc(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return utcDateKey(date);
+};
+
+// 0 is Sunday, as with Date#getDay
+export const dayOfWeek = (key: string): number => dateKeyToUtc(key).getUTCDay();
@@ -0,0 +1,22 @@
+// Journals (notebooks) as the React app and the API both see them.
+
+export interface Journal {
+  id: string;
+  name: string;
+  color: string; // #RRGGBB
+  icon: JournalIcon;
+  isDefault: boolean;
+  entryCount?: number; // Only in the list from GET /journals
+}
+
+export const MAX_JOURNAL_NAME_LENGTH = 40;
+
+// Icons the app can draw for a journal; stored by name
+export const JOURNAL_ICONS = ['book', 'briefcase', 'moon', 'heart', 'sun', 'star', 'leaf', 'coffee'] as const;
+
+export type JournalIcon = (typeof JOURNAL_ICONS)[number];
+
+export const JOURNAL_COLORS = ['#171717', '#93C5FD', '#86EFAC', '#FCD34D', '#FB923C', '#F9A8D4', '#DDD6FE', '#CBD5E1'];
+
+// What every account starts with; the journals migration creates the same for existing accounts
+export const DEFAULT_JOURNAL = { name: 'Journal', color: '#171717', icon: 'book' } as const;
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { countWords, markdownExcerpt, markdownToPlainText, parseInline, parseMarkdown, safeHref } from './markdown';
+
+describe('safeHref', () => {
+  it('allows web and mail links', () => {
+    expect(safeHref('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+    expect(safeHref(' http://example.com ')).toBe('http://example.com');
+    expect(safeHref('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(safeHref('www.example.com')).toBe('https://www.example.com');
+  });
+
+  it('refuses scripts, data and relative URLs', () => {
+    expect(safeHref('javascript:alert(1)')).toBeNull();
+    expect(safeHref('JavaScript:alert(1)')).toBeNull();
+    expect(safeHref('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(safeHref('vbscript:msgbox')).toBeNull();
+    expect(safeHref('//evil.example')).toBeNull();
+    expect(safeHref('/settings')).toBeNull();
+    expect(safeHref('')).toBeNull();
+  });
+});
+
+describe('parseInline', () => {
+  it('parses bold, italic and both', () => {
+    expect(parseInline('**a** *b* ***c***')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'a' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'b' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'em', children: [{ type: 'text', text: 'c' }] }] },
+    ]);
+  });
+
+  it('nests emphasis', () => {
+    expect(parseInline('**a *b* c**')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'a ' },
+          { type: 'em', children: [{ type: 'text', text: 'b' }] },
+          { type: 'text', text: ' c' },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves snake_case, lone stars and unclosed runs alone', () => {
+    expect(parseInline('my snake_case_var')).toEqual([{ type: 'text', text: 'my snake_case_var' }]);
+    expect(parseInline('a * b and **open')).toEqual([{ type: 'text', text: 'a * b and **open' }]);
+    expect(parseInline('_em_ and __strong__')).toEqual([
+      { type: 'em', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'strong', children: [{ type: 'text', text: 'strong' }] },
+    ]);
+  });
+
+  it('honours backslash escapes', () => {
+    expect(parseInline('\\*not em\\*')).toEqual([{ type: 'text', text: '*not em*' }]);
+    expect(parseInline('ends with \\')).toEqual([{ type: 'text', text: 'ends with \\' }]);
+  });
+
+  it('parses links and drops unsafe hrefs', () => {
+    expect(parseInline('[site](https://example.com) and [bad](javascript:alert(1)).')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'site' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'link', href: null, children: [{ type: 'text', text: 'bad' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('keeps balanced parentheses in URLs and rejects URLs with spaces', () => {
+    expect(parseInline('[w](https://en.wikipedia.org/wiki/Foo_(bar)) x')[0]).toEqual({
+      type: 'link',
+      href: 'https://en.wikipedia.org/wiki/Foo_(bar)',
+      children: [{ type: 'text', text: 'w' }],
+    });
+    expect(parseInline('[a b](not a url)')).toEqual([{ type: 'text', text: '[a b](not a url)' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses headings, lists, checkboxes and quotes', () => {
+    const blocks = parseMarkdown('# Title ##\n\n- [ ] call mom\n- [x] water\n  plants\n1. one\n2. two\n\n> quoted\n> - item');
+    expect(blocks).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          { checked: false, children: [{ type: 'text', text: 'call mom' }] },
+          { checked: true, children: [{ type: 'text', text: 'water\nplants' }] },
+        ],
+      },
+      {
+        type: 'list',
+        ordered: true,
+        start: 1,
+        items: [{ children: [{ type: 'text', text: 'one' }] }, { children: [{ type: 'text', text: 'two' }] }],
+      },
+      {
+        type: 'quote',
+        children: [
+          { type: 'paragraph', children: [{ type: 'text', text: 'quoted' }] },
+          { type: 'list', ordered: false, start: 1, items: [{ children: [{ type: 'text', text: 'item' }] }] },
+        ],
+      },
+    ]);
+  });
+
+  it('does not treat hashtags as headings', () => {
+    expect(parseMarkdown('#work today')).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: '#work today' }] }]);
+  });
+
+  it('keeps line breaks inside a paragraph', () => {
+    expect(parseMarkdown('one\ntwo')).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: 'one\ntwo' }] }]);
+  });
+});
+
+describe('plain text', () => {
+  const source = '# Big day\n\nWent to the **market** with [Sam](https://example.com).\n\n- [x] done';
+
+  it('strips the syntax', () => {
+    expect(markdownToPlainText(source)).toBe('Big day\nWent to the market with Sam.\ndone');
+    expect(markdownExcerpt(source)).toBe('Big day Went to the market with Sam. done');
+  });
+
+  it('counts words, not markers', () => {
+    expect(countWords(source)).toBe(9);
+    expect(countWords('   ')).toBe(0);
+  });
+});
+
+// Inputs that make a naive parser rescan the rest of the text for every opener; they must stay linear
+describe('pathological input', () => {
+  const within = (budgetMs: number, run: () => void) => {
+    const started = performance.now();
+    run();
+    expect(performance.now() - started).toBeLessThan(budgetMs);
+  };
+
+  it.each([
+    ['unclosed links', '[a]('],
+    ['unclosed bold', '**a '],
+    ['unclosed italic', '*a '],
+    ['unclosed underscores', '_a '],
+    ['link openers', '[a'],
+    ['nested parentheses', '[a]((('],
+    ['mixed delimiters', '*_**__'],
+    ['escapes', '\\*a*'],
+  ])('parses 32,000 %s quickly', (_name, unit) => {
+    within(1000, () => countWords(unit.repeat(32_000)));
+  });
+
+  it('caps nested emphasis and quotes', () => {
+    within(1000, () => countWords('*_'.repeat(20_000) + 'x' + '_*'.repeat(20_000)));
+    within(1000, () => countWords('> '.repeat(25_000) + 'deep'));
+  });
+
+  it('handles long headings and lines of spaces', () => {
+    within(1000, () => countWords(`# a${' '.repeat(50_000)}x`));
+    within(1000, () => countWords(`# ${'#'.repeat(50_000)}a`));
+    within(1000, () => countWords(' '.repeat(50_000)));
+  });
+});
@@ -0,0 +1,296 @@
+// The Markdown subset entries are written in, shared by the React app (rendering, excerpts) and the API (word
+// counts). Headings, **bold**, *italic*, lists, [ ] checkboxes, > quotes and [links](https://…); anything else
+// stays plain text. Parsing produces a tree rather than HTML so nothing in an entry is ever injected as markup.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string | null; children: MarkdownInline[] }; // href is null when the URL isn't safe
+
+export interface MarkdownListItem {
+  checked?: boolean; // Set for "- [ ]" and "- [x]" items
+  children: MarkdownInline[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] } // Keeps single line breaks as "\n"
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'quote'; children: MarkdownBlock[] };
+
+// The longest entry the API accepts, in characters
+export const MAX_ENTRY_LENGTH = 50_000;
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*))?$/;
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const QUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+const ESCAPABLE = '\\`*_{}[]()#+-.!>~|';
+
+// Only web and mail links; "javascript:", "data:" and the like never reach an href
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim();
+  if (/^(https?:\/\/|mailto:)/i.test(trimmed)) return trimmed;
+  if (/^www\./i.test(trimmed)) return `https://${trimmed}`;
+  return null;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+// Emphasis nested deeper than this, or quotes inside quotes inside quotes, is left as written. Every level parses
+// its text again, so the cap is what keeps a crafted entry from costing more than a few passes over it.
+const MAX_INLINE_DEPTH = 5;
+const MAX_QUOTE_DEPTH = 5;
+
+// Everything parseInline needs to look ahead for, found in a single pass so no opener ever rescans the text
+interface InlineIndex {
+  escaped: Uint8Array; // 1 where a backslash makes the character literal
+  // Where a run of exactly that many "*" or "_" could close emphasis, ascending; keyed by the run ("**")
+  closers: Map<string, number[]>;
+  nextLinkMiddle: Int32Array; // The next "](" at or after each position, or -1
+  nextNewline: Int32Array;
+  linkEnds: Int32Array; // For a URL starting at each position, the ")" that ends it, or -1
+}
+
+function nextOccurrence(text: string, matches: (index: number) => boolean): Int32Array {
+  const next = new Int32Array(text.length + 1).fill(-1);
+  for (let i = text.length - 1; i >= 0; i--) next[i] = matches(i) ? i : next[i + 1];
+  return next;
+}
+
+// A URL ends at the ")" that brings its parentheses (as in Wikipedia links) back to even, and never spans whitespace.
+// With a running count of "(" minus ")", that is the first later point where the count drops below its value at the start.
+function findLinkEnds(text: string): Int32Array {
+  const depth = new Int32Array(text.length + 1);
+  for (let i = 0; i < text.length; i++) depth[i + 1] = depth[i] + (text[i] === '(' ? 1 : text[i] === ')' ? -1 : 0);
+  const nextWhitespace = nextOccurrence(text, (i) => /\s/.test(text[i]));
+  const ends = new Int32Array(text.length).fill(-1);
+  const nearest = new Map<number, number>();
+  nearest.set(depth[text.length], text.length);
+  for (let i = text.length - 1; i >= 0; i--) {
+    const after = nearest.get(depth[i] - 1);
+    if (after !== undefined && (nextWhitespace[i] === -1 || after - 1 < nextWhitespace[i])) ends[i] = after - 1;
+    nearest.set(depth[i], i);
+  }
+  return ends;
+}
+
+function indexInline(text: string): InlineIndex {
+  const escaped = new Uint8Array(text.length + 1);
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && !escaped[i] && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) escaped[i + 1] = 1;
+  }
+
+  const closers = new Map<string, number[]>();
+  for (let i = 0; i < text.length; ) {
+    const char = text[i];
+    if ((char !== '*' && char !== '_') || escaped[i]) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (text[end] === char && !escaped[end]) end++;
+    const run = text.slice(i, end);
+    // A closer follows a word, and "_" inside a word (snake_case) isn't emphasis
+    if (run.length <= 3 && i > 0 && !/\s/.test(text[i - 1]) && !(char === '_' && isWordChar(text[end]))) {
+      const positions = closers.get(run);
+      if (positions) positions.push(i);
+      else closers.set(run, [i]);
+    }
+    i = end;
+  }
+
+  const hasLinks = text.includes('](');
+  return {
+    escaped,
+    closers,
+    nextLinkMiddle: hasLinks
+      ? nextOccurrence(text, (i) => text[i] === ']' && text[i + 1] === '(' && !escaped[i])
+      : new Int32Array(text.length + 1).fill(-1),
+    nextNewline: nextOccurrence(text, (i) => text[i] === '\n'),
+    linkEnds: hasLinks ? findLinkEnds(text) : new Int32Array(text.length).fill(-1),
+  };
+}
+
+// The first closer at or after `from`
+function firstCloser(positions: number[] | undefined, from: number): number {
+  if (!positions) return -1;
+  let low = 0;
+  let high = positions.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (positions[middle] < from) low = middle + 1;
+    else high = middle;
+  }
+  return low < positions.length ? positions[low] : -1;
+}
+
+export function parseInline(text: string, depth = 0): MarkdownInline[] {
+  if (depth > MAX_INLINE_DEPTH) return text ? [{ type: 'text', text }] : [];
+
+  const { escaped, closers, nextLinkMiddle, nextNewline, linkEnds } = indexInline(text);
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && escaped[i + 1]) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '[') {
+      const middle = nextLinkMiddle[i + 1];
+      const end = middle === -1 ? -1 : linkEnds[middle + 2] ?? -1;
+      const newline = nextNewline[i + 1];
+      if (middle > i + 1 && end !== -1 && (newline === -1 || newline > middle)) {
+        flush();
+        nodes.push({
+          type: 'link',
+          href: safeHref(text.slice(middle + 2, end)),
+          children: parseInline(text.slice(i + 1, middle), depth + 1),
+        });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      let end = i;
+      while (text[end] === char && !escaped[end]) end++;
+      const run = text.slice(i, end);
+      // An opener comes before a word; "***both***" is bold and italic at once
+      const opens =
+        run.length <= 3 && !/\s/.test(text[end] ?? ' ') && !(char === '_' && isWordChar(text[i - 1]));
+      const close = opens ? firstCloser(closers.get(run), end + 1) : -1;
+      if (close !== -1) {
+        flush();
+        const children = parseInline(text.slice(end, close), depth + 1);
+        nodes.push(
+          run.length === 3
+            ? { type: 'strong', children: [{ type: 'em', children }] }
+            : { type: run.length === 2 ? 'strong' : 'em', children }
+        );
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i = end;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+// "## Title ##" is titled "Title"; a "#" that is part of a word stays
+function headingText(text: string): string {
+  let end = text.length;
+  while (end > 0 && text[end - 1] === '#') end--;
+  return end === 0 || /\s/.test(text[end - 1]) ? text.slice(0, end).trimEnd() : text;
+}
+
+export function parseMarkdown(source: string, quoteDepth = 0): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const isQuote = (line: string) => quoteDepth < MAX_QUOTE_DEPTH && QUOTE_PATTERN.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: Math.min(heading[1].length, 3) as 1 | 2 | 3,
+        children: parseInline(headingText((heading[2] ?? '').trim())),
+      });
+      i++;
+      continue;
+    }
+
+    if (isQuote(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && isQuote(lines[i])) {
+        quoted.push(lines[i].match(QUOTE_PATTERN)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n'), quoteDepth + 1) });
+      continue;
+    }
+
+    const first = line.match(LIST_ITEM_PATTERN);
+    if (first) {
+      const ordered = !first[1];
+      const items: MarkdownListItem[] = [];
+      const texts: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_PATTERN);
+        if (item && !!item[2] === ordered) {
+          items.push(item[3] ? { checked: item[3] !== ' ', children: [] } : { children: [] });
+          texts.push(item[4]);
+        } else if (item || !/^\s+\S/.test(lines[i])) {
+          break;
+        } else {
+          // An indented line carries on the item above it
+          texts[texts.length - 1] += `\n${lines[i].trim()}`;
+        }
+        i++;
+      }
+      items.forEach((item, index) => (item.children = parseInline(texts[index])));
+      blocks.push({ type: 'list', ordered, start: ordered ? Number(first[2]) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !HEADING_PATTERN.test(lines[i]) &&
+      !isQuote(lines[i]) &&
+      !LIST_ITEM_PATTERN.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map((node) => (node.type === 'text' ? node.text : inlineText(node.children))).join('');
+
+const blocksText = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap((block) => {
+    if (block.type === 'list') return block.items.map((item) => inlineText(item.children));
+    if (block.type === 'quote') return blocksText(block.children);
+    return [inlineText(block.children)];
+  });
+
+// The words of an entry without the syntax around them, one block per line
+export const markdownToPlainText = (source: string): string => blocksText(parseMarkdown(source)).join('\n');
+
+// Words as a reader sees them: "**Great** day" is two, and a "-" bullet or "#" heading mark is none
+export const countWords = (source: string): number =>
+  markdownToPlainText(source).split(/\s+/).filter(Boolean).length;
+
+// A one-paragraph preview for lists of entries
+export const markdownExcerpt = (source: string): string => markdownToPlainText(source).replace(/\s+/g, ' ').trim();
@@ -0,0 +1,120 @@
+// Single source of truth for moods, shared by the React app and the API.
+
+export type MoodCategory = 'positive' | 'neutral' | 'negative';
+
+export interface MoodDefinition {
+  id: string;
+  label: string;
+  emoji: string;
+  color: string;
+  // Valence used for averages and trends (-3 very negative … +3 very positive)
+  score: number;
+  category: MoodCategory;
+}
+
+export const MOODS = [
+  { id: 'joy', label: 'Joy', emoji: '😊', color: '#FCD34D', score: 3, category: 'positive' },
+  { id: 'grateful', label: 'Grateful', emoji: '🙏', color: '#DDD6FE', score: 2, category: 'positive' },
+  { id: 'motivated', label: 'Motivated', emoji: '💪', color: '#86EFAC', score: 2, category: 'positive' },
+  { id: 'calm', label: 'Calm', emoji: '😌', color: '#93C5FD', score: 2, category: 'positive' },
+  { id: 'neutral', label: 'Neutral', emoji: '😐', color: '#D4D4D4', score: 0, category: 'neutral' },
+  { id: 'tired', label: 'Tired', emoji: '😴', color: '#CBD5E1', score: -1, category: 'negative' },
+  { id: 'anxious', label: 'Anxious', emoji: '😰', color: '#FDA4AF', score: -2, category: 'negative' },
+  { id: 'stressed', label: 'Stressed', emoji: '🫠', color: '#FB923C', score: -3, category: 'negative' },
+  { id: 'sad', label: 'Sad', emoji: '😔', color: '#A5B4FC', score: -3, category: 'negative' },
+  { id: 'angry', label: 'Angry', emoji: '😠', color: '#F87171', score: -3, category: 'negative' },
+] as const satisfies readonly MoodDefinition[];
+
+export type MoodId = (typeof MOODS)[number]['id'];
+
+export const MOOD_IDS = MOODS.map((m) => m.id) as [MoodId, ...MoodId[]];
+
+// Shown for entries without a mood (or with one we no longer recognise)
+export const FALLBACK_MOOD: MoodDefinition = {
+  id: 'none',
+  label: 'Neutral',
+  emoji: '😐',
+  color: '#D4D4D4',
+  score: 0,
+  category: 'neutral',
+};
+
+// Older backend names that were folded into the registry
+const MOOD_ALIASES: Record<string, MoodId> = {
+  happy: 'joy',
+  joyful: 'joy',
+  content: 'calm',
+};
+
+const moodById = new Map<string, MoodDefinition>(MOODS.map((m) => [m.id, m]));
+const moodByEmoji = new Map<string, MoodId>(MOODS.map((m) => [m.emoji, m.id]));
+
+export function isMoodId(value: unknown): value is MoodId {
+  return typeof value === 'string' && moodById.has(value);
+}
+
+/**
+ * Maps legacy names, emoji and differently-cased ids onto a registry id.
+ * Returns undefined for anything that cannot be matched.
+ */
+export function normalizeMood(value?: string | null): MoodId | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const byEmoji = moodByEmoji.get(trimmed);
+  if (byEmoji) return byEmoji;
+  const key = trimmed.toLowerCase();
+  if (isMoodId(key)) return key;
+  return MOOD_ALIASES[key];
+}
+
+export function getMood(value?: string | null): MoodDefinition | undefined {
+  const id = normalizeMood(value);
+  return id ? moodById.get(id) : undefined;
+}
+
+export function getMoodOrFallback(value?: string | null): MoodDefinition {
+  return getMood(value) ?? FALLBACK_MOOD;
+}
+
+export function scoreMood(value?: string | null): number | null {
+  return getMood(value)?.score ?? null;
+}
+
+// User-defined moods (the `Mood` table). Entries reference them by their database id.
+export interface CustomMood {
+  id: string;
+  label: string;
+  emoji: string;
+  color: string;
+  score: number;
+}
+
+export const MIN_MOOD_SCORE = -3;
+export const MAX_MOOD_SCORE = 3;
+
+export function categoryForScore(score: number): MoodCategory {
+  if (score > 0) return 'positive';
+  if (score < 0) return 'negative';
+  return 'neutral';
+}
+
+export function toMoodDefinition(mood: CustomMood): MoodDefinition {
+  const { id, label, emoji, color, score } = mood;
+  return { id, label, emoji, color, score, category: categoryForScore(score) };
+}
+
+/**
+ * Looks a mood up among the built-ins first, then among the user's custom moods.
+ */
+export function resolveMood(value: string | null | undefined, customMoods: CustomMood[] = []): MoodDefinition | undefined {
+  const builtIn = getMood(value);
+  if (builtIn) return builtIn;
+  const custom = customMoods.find((m) => m.id === value);
+  return custom ? toMoodDefinition(custom) : undefined;
+}
+
+// True when a custom label would shadow a built-in mood
+export function isReservedMoodLabel(label: string): boolean {
+  const key = label.trim().toLowerCase();
+  return isMoodId(key) || key in MOOD_ALIASES || MOODS.some((m) => m.label.toLowerCase() === key);
+}
@@ -0,0 +1,36 @@
+// Hashtag rules shared by the React app (detection while typing) and the API (validation, renames).
+
+export const MAX_TAG_LENGTH = 40;
+
+// A tag starts with a letter and may contain letters, digits, "_" and "-"; "#2024" is not a tag
+export const TAG_NAME_PATTERN = /^[\p{L}][\p{L}\p{N}_-]*$/u;
+
+// The lookbehind keeps "me#work" and "##work" from counting as tags
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_#&])#([\p{L}][\p{L}\p{N}_-]*)/gu;
+
+// Tags are case-insensitive, so "#Work" and "#work" are the same tag
+export const normalizeTagName = (name: string) => name.trim().replace(/^#/, '').toLowerCase();
+
+export const isValidTagName = (name: string) => name.length <= MAX_TAG_LENGTH && TAG_NAME_PATTERN.test(name);
+
+// Unique, normalized tag names in the order they first appear
+export function extractHashtags(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    // Trailing "-" or "_" is usually punctuation ("#work-")
+    const name = normalizeTagName(match[1].replace(/[-_]+$/, ''));
+    if (isValidTagName(name)) names.add(name);
+  }
+  return Array.from(names);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrites every `#from` hashtag in content. `to` is a tag name, or null to drop the "#" and leave a plain word.
+ * Matching is case-insensitive and stops at tag boundaries, so renaming "#work" leaves "#workout" alone.
+ */
+export function replaceHashtag(content: string, from: string, to: string | null): string {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_#&])#(${escapeRegExp(from)})(?![\\p{L}\\p{N}_]|-[\\p{L}\\p{N}])`, 'giu');
+  return content.replace(pattern, (_match, word: string) => (to === null ? word : `#${to}`));
+}
@@ -0,0 +1,76 @@
+/// <reference lib="webworker" />
+// Service worker. Precaches the app shell so Ink opens without a connection, keeps the last `/entries`
+// responses for when the API can't be reached, and hands Background Sync events to an open window,
+// which sends the outbox (see src/lib/sync.ts). Built by vite-plugin-pwa, which fills in __WB_MANIFEST.
+
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { NetworkFirst } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { API_CACHE, OUTBOX_SYNC_TAG, SYNC_OUTBOX_MESSAGE } from './lib/pwa';
+
+declare let self: ServiceWorkerGlobalScope;
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+const FLUSH_TIMEOUT_MS = 60 * 1000;
+
+const apiBase = new URL((import.meta as any)?.env?.VITE_API_BASE_URL || '/api', self.location.origin);
+const apiPath = apiBase.pathname.replace(/\/$/, '');
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// The app has a single page, so every navigation gets the precached index.html
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html'), { denylist: [/^\/api\//, /^\/health/] }));
+
+// Sync reads (the delta feed and the paged import) must see the server as it is: an old page would roll the
+// sync cursor back or drop entries from the journal. Searches show their own offline notice instead of old hits.
+const isSyncOrSearch = (url: URL) =>
+  url.pathname.startsWith(`${apiPath}/entries/changes`) ||
+  (url.pathname.replace(/\/$/, '') === `${apiPath}/entries` &&
+    ['q', 'cursor', 'limit'].some((param) => url.searchParams.has(param)));
+
+// Entries, their history and attachments: fresh when online, the last copy otherwise
+registerRoute(
+  ({ url, request }) =>
+    request.method === 'GET' &&
+    url.origin === apiBase.origin &&
+    url.pathname.startsWith(`${apiPath}/entries`) &&
+    !isSyncOrSearch(url),
+  new NetworkFirst({
+    cacheName: API_CACHE,
+    networkTimeoutSeconds: 5,
+    plugins: [new ExpirationPlugin({ maxEntries: 100, maxAgeSeconds: 7 * 24 * 60 * 60 })],
+  })
+);
+
+// Sending the outbox takes the signed-in session, which lives in the page. With no window open there is
+// nothing to do here; the app sends the outbox when it next starts.
+async function flushOutbox(): Promise<void> {
+  const [client] = await self.clients.matchAll({ type: 'window' });
+  if (!client) return;
+
+  const channel = new MessageChannel();
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('Outbox sync timed out')), FLUSH_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout);
+      // Rejecting makes the browser fire the sync event again later
+      if (event.data?.ok) resolve();
+      else reject(new Error('Outbox sync failed'));
+    };
+    client.postMessage({ type: SYNC_OUTBOX_MESSAGE }, [channel.port2]);
+  });
+}
+
+self.addEventListener('sync', ((event: SyncEvent) => {
+  if (event.tag === OUTBOX_SYNC_TAG) event.waitUntil(flushOutbox());
+}) as EventListener);
+
+// The update prompt calls updateServiceWorker(), which asks the waiting worker to take over
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') void self.skipWaiting();
+});